@@ -0,0 +1,175 @@
+/**
+ * Kuchi - Expression Choreography
+ * Timed sequences of expressions and look directions, played one at a time by priority
+ * instead of racing setTimeout chains
+ */
+
+import type { Expression } from './robot';
+
+export interface ChoreographyStep {
+  expression: Expression;  // Includes look directions ('lookLeft', ...)
+  duration: number;        // How long the step is held (ms)
+  easing?: string;         // CSS timing function for the change into this step (default: the eyes' usual curve)
+  transitionMs?: number;   // Length of that change (default 300)
+  intensity?: number;      // How strongly the face shows, 0-1 (default 1)
+}
+
+export interface Choreography {
+  name: string;
+  steps: ChoreographyStep[];
+  loop?: number;            // Extra times to play the steps (Infinity = until cancelled)
+  priority?: number;        // See CHOREOGRAPHY_PRIORITY (default: reaction)
+  then?: Expression | null; // Face to settle on afterwards (default 'neutral', null keeps the last step)
+}
+
+export interface ChoreographyHandle {
+  cancel: () => void;
+  finished: Promise<boolean>; // true if it played to the end, false if cancelled or never started
+}
+
+// A choreography only interrupts one of the same or lower priority
+export const CHOREOGRAPHY_PRIORITY = {
+  idle: 0,      // Idle glances - anything interrupts them
+  reaction: 1,  // Reactions to taps and drags
+  alert: 2,     // Things that must be seen (waking up)
+};
+
+// Reusable named choreographies - play them with RobotFace.play('double-take')
+export const CHOREOGRAPHIES: Record<string, Choreography> = {
+  'giggle': {
+    name: 'giggle',
+    steps: [
+      { expression: 'glee', duration: 350 },
+      { expression: 'happy', duration: 300, easing: 'ease-out' },
+    ],
+    loop: 2,
+  },
+  'double-take': {
+    name: 'double-take',
+    steps: [
+      { expression: 'lookDown', duration: 300 },
+      { expression: 'neutral', duration: 250 },
+      { expression: 'lookDown', duration: 150, easing: 'ease-in', transitionMs: 100 },
+      { expression: 'surprised', duration: 800, easing: 'cubic-bezier(0.68, -0.55, 0.265, 1.55)' },
+    ],
+  },
+  'wave-hello': {
+    name: 'wave-hello',
+    steps: [
+      { expression: 'glee', duration: 700 },
+      { expression: 'wink', duration: 300, transitionMs: 120 },
+      { expression: 'glee', duration: 500 },
+    ],
+  },
+  'sneeze': {
+    name: 'sneeze',
+    steps: [
+      { expression: 'squint', duration: 450, easing: 'ease-in', transitionMs: 400 },
+      { expression: 'pleading', duration: 250 },
+      { expression: 'squint', duration: 350, easing: 'ease-in' },
+      { expression: 'surprised', duration: 150, easing: 'linear', transitionMs: 50 },
+      { expression: 'dizzy', duration: 700 },
+    ],
+  },
+  'wake-up': {
+    name: 'wake-up',
+    steps: [
+      { expression: 'surprised', duration: 500, transitionMs: 100 },
+      { expression: 'lookLeft', duration: 300 },
+      { expression: 'lookRight', duration: 300 },
+    ],
+    priority: CHOREOGRAPHY_PRIORITY.alert,
+  },
+  'calm-down': {
+    name: 'calm-down',
+    steps: [
+      { expression: 'annoyed', duration: 1000 },
+      { expression: 'unimpressed', duration: 500, easing: 'ease-out', transitionMs: 500 },
+    ],
+  },
+};
+
+export function findChoreography(name: string): Choreography | null {
+  return CHOREOGRAPHIES[name] ?? null;
+}
+
+/**
+ * Plays one choreography at a time through an apply callback
+ */
+export class ExpressionTimeline {
+  private apply: (step: ChoreographyStep) => void;
+  private current: { choreography: Choreography; timer: number | null; resolve: (completed: boolean) => void } | null =
+    null;
+
+  constructor(apply: (step: ChoreographyStep) => void) {
+    this.apply = apply;
+  }
+
+  /**
+   * Play a choreography, replacing the one playing unless that one has a higher priority
+   */
+  play(choreography: Choreography): ChoreographyHandle {
+    const priority = choreography.priority ?? CHOREOGRAPHY_PRIORITY.reaction;
+    const playing = this.current;
+    if (playing && (playing.choreography.priority ?? CHOREOGRAPHY_PRIORITY.reaction) > priority) {
+      console.log(`🎬 Skipped ${choreography.name} (${playing.choreography.name} is playing)`);
+      return { cancel: () => {}, finished: Promise.resolve(false) };
+    }
+    this.cancel();
+
+    let resolve: (completed: boolean) => void = () => {};
+    const finished = new Promise<boolean>((done) => (resolve = done));
+    const entry = { choreography, timer: null as number | null, resolve };
+    this.current = entry;
+
+    const steps = choreography.steps;
+    const total = steps.length * (1 + Math.max(0, choreography.loop ?? 0));
+    let index = 0;
+
+    const next = () => {
+      if (this.current !== entry) return;
+
+      if (index >= total || steps.length === 0) {
+        this.current = null;
+        if (choreography.then !== null) {
+          this.apply({ expression: choreography.then ?? 'neutral', duration: 0 });
+        }
+        resolve(true);
+        return;
+      }
+
+      const step = steps[index % steps.length];
+      index++;
+      this.apply(step);
+      entry.timer = window.setTimeout(next, step.duration);
+    };
+
+    console.log(`🎬 Playing ${choreography.name}`);
+    next();
+
+    return {
+      cancel: () => {
+        if (this.current === entry) this.cancel();
+      },
+      finished,
+    };
+  }
+
+  /**
+   * Stop the playing choreography where it is (its finished promise resolves false)
+   */
+  cancel(): void {
+    const playing = this.current;
+    if (!playing) return;
+
+    this.current = null;
+    if (playing.timer !== null) {
+      clearTimeout(playing.timer);
+    }
+    playing.resolve(false);
+  }
+
+  isPlaying(): boolean {
+    return this.current !== null;
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import type { Message } from './openai';
+import {
+  DEFAULT_CONTEXT_BUDGET,
+  MAX_CONTEXT_BUDGET,
+  MIN_CONTEXT_BUDGET,
+  countMessagesToFold,
+  estimateHistoryTokens,
+  formatForSummary,
+  getContextBudget,
+  truncateToTokens,
+  validateContextBudget,
+} from './context';
+
+// Three turns of about 100 tokens each
+const turns: Message[] = [
+  { role: 'user', content: 'a'.repeat(200) },
+  { role: 'assistant', content: 'b'.repeat(180) },
+  { role: 'user', content: 'c'.repeat(200) },
+  { role: 'assistant', content: 'd'.repeat(180) },
+  { role: 'user', content: 'e'.repeat(200) },
+  { role: 'assistant', content: 'f'.repeat(180) },
+];
+
+describe('countMessagesToFold', () => {
+  it('folds nothing when the history fits', () => {
+    expect(countMessagesToFold(turns, estimateHistoryTokens(turns))).toBe(0);
+  });
+
+  it('folds whole turns, oldest first', () => {
+    expect(countMessagesToFold(turns, 250)).toBe(2);
+    expect(countMessagesToFold(turns, 150)).toBe(4);
+  });
+
+  it('always keeps the latest turn', () => {
+    expect(countMessagesToFold(turns, 1)).toBe(4);
+  });
+});
+
+describe('formatForSummary', () => {
+  it('labels speakers and tool calls', () => {
+    const text = formatForSummary([
+      { role: 'user', content: 'Weather?' },
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [{ id: '1', type: 'function', function: { name: 'web_search', arguments: '{"query":"weather"}' } }],
+      },
+      { role: 'tool', tool_call_id: '1', content: 'Sunny' },
+      { role: 'assistant', content: 'It is sunny.' },
+    ]);
+
+    expect(text).toBe(
+      'User: Weather?\nKuchi used tools: web_search({"query":"weather"})\nTool result: Sunny\nKuchi: It is sunny.'
+    );
+  });
+});
+
+describe('context budget', () => {
+  it('uses the longest matching model prefix', () => {
+    expect(getContextBudget('gpt-4o-mini-2024-07-18')).toBe(12000);
+    expect(getContextBudget('llama3')).toBe(DEFAULT_CONTEXT_BUDGET);
+  });
+
+  it('accepts whole budgets within the limits only', () => {
+    expect(validateContextBudget(8000.4)).toBe(8000);
+    expect(validateContextBudget(MIN_CONTEXT_BUDGET - 1)).toBeNull();
+    expect(validateContextBudget(MAX_CONTEXT_BUDGET + 1)).toBeNull();
+    expect(validateContextBudget(NaN)).toBeNull();
+  });
+
+  it('truncates long text to about the token count', () => {
+    expect(truncateToTokens('short', 10)).toBe('short');
+    expect(truncateToTokens('x'.repeat(100), 10)).toBe(`${'x'.repeat(40)}\n[...truncated]`);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Kuchi - Context Window Management
+ * Estimates tokens per message and decides which old turns to fold into a summary
+ */
+
+import type { Message } from './openai';
+
+/**
+ * Token budget for conversation history per model
+ * Well under each model's real context window to keep requests fast and cheap
+ */
+export const CONTEXT_BUDGETS: Record<string, number> = {
+  'gpt-4o-mini': 12000,
+  'gpt-4o': 12000,
+  'gpt-4.1-mini': 12000,
+  'gpt-4.1': 12000,
+  'gpt-3.5-turbo': 6000,
+};
+
+export const DEFAULT_CONTEXT_BUDGET = 6000;
+
+// The user's own budget, set under the model in settings
+export const CONTEXT_BUDGET_STORAGE_KEY = 'kuchi_context_budget';
+export const MIN_CONTEXT_BUDGET = 1000;
+export const MAX_CONTEXT_BUDGET = 200000;
+
+// Per-message overhead for role and formatting tokens
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Rough token estimate (~4 characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function contentToText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.map((part) => (typeof part?.text === 'string' ? part.text : '')).join(' ');
+  }
+  return '';
+}
+
+export function estimateMessageTokens(message: Message): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + estimateTokens(contentToText(message.content));
+
+  if (message.role === 'assistant' && message.tool_calls) {
+    message.tool_calls.forEach((call) => {
+      tokens += estimateTokens(call.function.name) + estimateTokens(call.function.arguments);
+    });
+  }
+
+  return tokens;
+}
+
+export function estimateHistoryTokens(messages: Message[]): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+}
+
+/**
+ * Budget for a model, matching the longest known model name prefix
+ */
+export function getContextBudget(model: string): number {
+  const match = Object.keys(CONTEXT_BUDGETS)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? CONTEXT_BUDGETS[match] : DEFAULT_CONTEXT_BUDGET;
+}
+
+/**
+ * A budget as a whole number of tokens, or null if it is outside MIN_CONTEXT_BUDGET - MAX_CONTEXT_BUDGET
+ */
+export function validateContextBudget(tokens: number): number | null {
+  return Number.isFinite(tokens) && tokens >= MIN_CONTEXT_BUDGET && tokens <= MAX_CONTEXT_BUDGET
+    ? Math.round(tokens)
+    : null;
+}
+
+/**
+ * Saved budget, or null to use the model's default
+ */
+export function loadContextBudget(): number | null {
+  const saved = localStorage.getItem(CONTEXT_BUDGET_STORAGE_KEY);
+  return saved ? validateContextBudget(Number(saved)) : null;
+}
+
+export function saveContextBudget(tokens: number | null): void {
+  if (tokens === null) {
+    localStorage.removeItem(CONTEXT_BUDGET_STORAGE_KEY);
+  } else {
+    localStorage.setItem(CONTEXT_BUDGET_STORAGE_KEY, String(tokens));
+  }
+}
+
+/**
+ * Cut text down to roughly the given number of tokens
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = maxTokens * 4;
+  if (text.length <= maxChars) return text;
+  return `${text.slice(0, maxChars)}\n[...truncated]`;
+}
+
+/**
+ * How many leading messages to fold so the rest fits the target
+ * Only whole turns (starting at a user message) are folded, and the latest turn is always kept
+ */
+export function countMessagesToFold(messages: Message[], targetTokens: number): number {
+  const turnStarts = messages
+    .map((message, index) => (message.role === 'user' ? index : -1))
+    .filter((index) => index > 0);
+
+  let remaining = estimateHistoryTokens(messages);
+  let foldCount = 0;
+
+  // Each candidate cut point is the start of a later turn
+  for (const cut of turnStarts) {
+    if (remaining <= targetTokens) break;
+    remaining -= estimateHistoryTokens(messages.slice(foldCount, cut));
+    foldCount = cut;
+  }
+
+  return foldCount;
+}
+
+/**
+ * Render messages as plain text for the summarizer
+ */
+export function formatForSummary(messages: Message[]): string {
+  return messages
+    .map((message) => {
+      const text = contentToText(message.content);
+      if (message.role === 'tool') {
+        return `Tool result: ${truncateToTokens(text, 150)}`;
+      }
+      if (message.role === 'assistant' && message.tool_calls) {
+        const calls = message.tool_calls.map((call) => `${call.function.name}(${call.function.arguments})`);
+        return `Kuchi used tools: ${calls.join(', ')}${text ? `\nKuchi: ${text}` : ''}`;
+      }
+      return `${message.role === 'user' ? 'User' : 'Kuchi'}: ${text}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { ReplyStreamParser, parseReply } from './emotion';
+
+const REPLY = '{"emotion":"sad","intensity":0.4,"text":"Your flight is \\"cancelled\\".\\nSorry!","sources":[2, 3]}';
+
+describe('ReplyStreamParser', () => {
+  it('decodes the text as it streams, whatever the chunk boundaries', () => {
+    const parser = new ReplyStreamParser();
+    const deltas = REPLY.split('').map((char) => parser.push(char));
+
+    expect(deltas.join('')).toBe('Your flight is "cancelled".\nSorry!');
+    expect(parser.getEmotion()).toEqual({ expression: 'sad', intensity: 0.4 });
+    expect(parser.getSources()).toEqual([2, 3]);
+  });
+
+  it('knows the emotion before any text', () => {
+    const parser = new ReplyStreamParser();
+    expect(parser.push('{"emotion": "excited", "intensity": 1, "te')).toBe('');
+    expect(parser.getEmotion()?.expression).toBe('excited');
+  });
+
+  it('decodes unicode escapes split across chunks', () => {
+    const parser = new ReplyStreamParser();
+    const text = ['{"emotion":"happy","text":"caf\\u', '00e9 ok"}'].map((chunk) => parser.push(chunk)).join('');
+    expect(text).toBe('café ok');
+  });
+
+  it('passes replies that are not JSON through as text', () => {
+    const parser = new ReplyStreamParser();
+    expect(parser.push('Hello ') + parser.push('there')).toBe('Hello there');
+    expect(parser.getEmotion()).toBeNull();
+  });
+
+  it('ignores emotions Kuchi does not show in replies', () => {
+    const { text, emotion } = parseReply('{"emotion":"listening","text":"Hi"}');
+    expect(text).toBe('Hi');
+    expect(emotion).toBeNull();
+  });
+});
+
+describe('parseReply', () => {
+  it('clamps the intensity and skips invalid source numbers', () => {
+    const reply = parseReply('{"emotion":"happy","intensity":3,"text":"Yes","sources":[0, 1, "x"]}');
+    expect(reply).toEqual({ text: 'Yes', emotion: { expression: 'happy', intensity: 1 }, sources: [1] });
+  });
+});
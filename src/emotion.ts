@@ -0,0 +1,212 @@
+/**
+ * Kuchi - Reply Emotions
+ * The model answers with structured output: the spoken text, the face to show while saying it,
+ * and the numbers of the search results it cites.
+ * The reply is parsed while it streams, so speech can start before the JSON is complete
+ */
+
+import type { Expression } from './robot';
+
+export interface ReplyEmotion {
+  expression: Expression;
+  intensity: number;  // 0-1, how strongly the emotion comes through (default 1)
+}
+
+// Faces the model may pick for a reply (states like 'listening' or 'blink' are Kuchi's own)
+export const REPLY_EXPRESSIONS: Expression[] = [
+  'neutral', 'happy', 'glee', 'love', 'excited', 'awe', 'starry', 'mischievous',
+  'sad', 'crying', 'worried', 'angry', 'furious', 'scared', 'frustrated',
+  'surprised', 'confused', 'skeptic', 'suspicious', 'unimpressed', 'annoyed',
+  'sleepy', 'focused', 'pleading', 'wink', 'dizzy',
+];
+
+export function isReplyExpression(value: unknown): value is Expression {
+  return typeof value === 'string' && (REPLY_EXPRESSIONS as string[]).includes(value);
+}
+
+// Property order matters: emotion streams first, so the face is known before the first sentence is spoken
+export const REPLY_RESPONSE_FORMAT = {
+  type: 'json_schema' as const,
+  json_schema: {
+    name: 'kuchi_reply',
+    strict: true,
+    schema: {
+      type: 'object',
+      properties: {
+        emotion: {
+          type: 'string',
+          enum: REPLY_EXPRESSIONS,
+          description: 'Face Kuchi shows while saying the reply',
+        },
+        intensity: {
+          type: 'number',
+          description: 'How strongly the emotion comes through, from 0 (barely) to 1 (fully)',
+        },
+        text: {
+          type: 'string',
+          description: 'The reply, spoken aloud',
+        },
+        sources: {
+          type: 'array',
+          items: { type: 'integer' },
+          description: 'Numbers of the web search results the reply is based on (empty if none)',
+        },
+      },
+      required: ['emotion', 'intensity', 'text', 'sources'],
+      additionalProperties: false,
+    },
+  },
+};
+
+export const EMOTION_INSTRUCTION =
+  'Answer as JSON with the spoken reply in "text" and the face to show while saying it in "emotion". ' +
+  'Pick the emotion from what the reply says, not from your usual mood: sad or worried for bad news ' +
+  '(like a cancelled flight), excited or happy for good news, neutral for plain facts. ' +
+  'Put the numbers of the web search results the reply is based on in "sources", or leave it empty.';
+
+const JSON_ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+/**
+ * Pulls the emotion and the spoken text out of a streamed JSON reply
+ * Replies that aren't JSON (the model ignored the format) pass through as text with no emotion
+ */
+export class ReplyStreamParser {
+  private buffer = '';
+  private mode: 'unknown' | 'json' | 'text' = 'unknown';
+  private textStart = -1;  // Buffer index where the "text" string starts
+  private textPos = -1;    // Buffer index decoded up to
+  private textDone = false;
+  private text = '';
+  private emotion: ReplyEmotion | null = null;
+  private emotionRead = false;
+
+  /**
+   * Add a chunk of the model's output
+   * Returns the newly available spoken text
+   */
+  push(chunk: string): string {
+    this.buffer += chunk;
+
+    if (this.mode === 'unknown') {
+      const first = this.buffer.trimStart()[0];
+      if (!first) return '';
+      this.mode = first === '{' ? 'json' : 'text';
+    }
+
+    if (this.mode === 'text') {
+      const delta = this.buffer.slice(this.text.length);
+      this.text = this.buffer;
+      return delta;
+    }
+
+    this.readEmotion();
+    return this.readText();
+  }
+
+  private readEmotion(): void {
+    if (this.emotionRead) return;
+
+    const match = this.buffer.match(/"emotion"\s*:\s*"([^"]*)"/);
+    if (!match) return;
+
+    this.emotionRead = true;
+    if (!isReplyExpression(match[1])) {
+      console.warn(`🎭 Model picked an unknown emotion: ${match[1]}`);
+      return;
+    }
+
+    // Intensity may not have streamed yet - it is read again when the reply is complete
+    this.emotion = { expression: match[1], intensity: this.readIntensity() ?? 1 };
+  }
+
+  private readIntensity(): number | null {
+    const match = this.buffer.match(/"intensity"\s*:\s*(-?\d+(?:\.\d+)?)\s*[,}]/);
+    if (!match) return null;
+    const intensity = parseFloat(match[1]);
+    return Number.isFinite(intensity) ? Math.max(0, Math.min(1, intensity)) : null;
+  }
+
+  /**
+   * Decode as much of the "text" string as has arrived
+   */
+  private readText(): string {
+    if (this.textDone) return '';
+
+    if (this.textStart === -1) {
+      const match = this.buffer.match(/"text"\s*:\s*"/);
+      if (!match || match.index === undefined) return '';
+      this.textStart = match.index + match[0].length;
+      this.textPos = this.textStart;
+    }
+
+    let delta = '';
+    while (this.textPos < this.buffer.length) {
+      const char = this.buffer[this.textPos];
+
+      if (char === '"') {
+        this.textDone = true;
+        break;
+      }
+
+      if (char !== '\\') {
+        delta += char;
+        this.textPos++;
+        continue;
+      }
+
+      // Escapes may be split across chunks - wait for the rest
+      const code = this.buffer[this.textPos + 1];
+      if (code === undefined) break;
+      if (code === 'u') {
+        const hex = this.buffer.slice(this.textPos + 2, this.textPos + 6);
+        if (hex.length < 4) break;
+        delta += String.fromCharCode(parseInt(hex, 16));
+        this.textPos += 6;
+      } else {
+        delta += JSON_ESCAPES[code] ?? code;
+        this.textPos += 2;
+      }
+    }
+
+    this.text += delta;
+    return delta;
+  }
+
+  /**
+   * The spoken text so far
+   */
+  getText(): string {
+    return this.text;
+  }
+
+  /**
+   * Numbers of the search results the reply cites, once they have streamed (empty if none)
+   */
+  getSources(): number[] {
+    const match = this.buffer.match(/"sources"\s*:\s*\[([^\]]*)\]/);
+    if (!match) return [];
+    return match[1]
+      .split(',')
+      .map((item) => Number(item.trim()))
+      .filter((number) => Number.isInteger(number) && number > 0);
+  }
+
+  /**
+   * The emotion, once it has streamed (null if the model gave none or an unknown one)
+   */
+  getEmotion(): ReplyEmotion | null {
+    if (this.emotion) {
+      this.emotion.intensity = this.readIntensity() ?? this.emotion.intensity;
+    }
+    return this.emotion;
+  }
+}
+
+/**
+ * Parse a complete (non-streamed) reply
+ */
+export function parseReply(content: string): { text: string; emotion: ReplyEmotion | null; sources: number[] } {
+  const parser = new ReplyStreamParser();
+  parser.push(content);
+  return { text: parser.getText(), emotion: parser.getEmotion(), sources: parser.getSources() };
+}
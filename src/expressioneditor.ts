@@ -0,0 +1,399 @@
+/**
+ * Kuchi - Expression Editor
+ * Design custom faces with a live preview, and import or export them as expression packs
+ */
+
+import type { Expression } from './robot';
+import {
+  CustomExpression,
+  DEFAULT_EYE,
+  DEFAULT_EYE_COLOR,
+  EyeShape,
+  REPLACEABLE_EXPRESSIONS,
+  applyCustomExpression,
+  createExpressionPack,
+  loadCustomExpressions,
+  mergeExpressions,
+  parseCustomExpressions,
+  parseExpressionPack,
+  rightEye,
+  saveCustomExpressions,
+} from './expressions';
+
+export interface ExpressionEditorCallbacks {
+  onChange?: (expressions: CustomExpression[]) => void;
+}
+
+// Slider per eye field: [label, field, min, max]
+const EYE_SLIDERS: [string, keyof Omit<EyeShape, 'radius'>, number, number][] = [
+  ['Width', 'width', 2, 60],
+  ['Height', 'height', 2, 60],
+  ['Move sideways', 'x', -30, 30],
+  ['Move up / down', 'y', -30, 30],
+  ['Tilt', 'rotate', -180, 180],
+];
+const CORNER_LABELS = ['Top left corner', 'Top right corner', 'Bottom right corner', 'Bottom left corner'];
+
+/**
+ * Create an element with an optional class and text (text is never parsed as HTML)
+ */
+function el<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  className?: string,
+  text?: string
+): HTMLElementTagNameMap[K] {
+  const element = document.createElement(tag);
+  if (className) element.className = className;
+  if (text !== undefined) element.textContent = text;
+  return element;
+}
+
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 32);
+}
+
+function copyEye(eye: EyeShape): EyeShape {
+  return { ...eye, radius: [...eye.radius] };
+}
+
+/**
+ * A face screen with two eyes, drawing one custom expression
+ */
+function createPreview(expression: CustomExpression): HTMLElement {
+  const preview = el('div', 'expression-preview');
+  const face = el('div', 'face');
+  const eyes = el('div', 'eyes-container');
+  eyes.append(el('div', 'eye left'), el('div', 'eye right'));
+  face.appendChild(eyes);
+  preview.appendChild(face);
+  applyCustomExpression(face, expression);
+  return preview;
+}
+
+export class ExpressionEditor {
+  private modal: HTMLElement;
+  private content: HTMLElement;
+  private fileInput: HTMLInputElement;
+  private callbacks: ExpressionEditorCallbacks;
+  private expressions: CustomExpression[] = [];
+
+  constructor(modalId: string, callbacks: ExpressionEditorCallbacks = {}) {
+    const element = document.getElementById(modalId);
+    if (!element) {
+      throw new Error(`Element with id "${modalId}" not found`);
+    }
+    this.modal = element;
+    this.content = this.modal.querySelector('.modal-content') as HTMLElement;
+    this.callbacks = callbacks;
+
+    this.fileInput = el('input');
+    this.fileInput.type = 'file';
+    this.fileInput.accept = 'application/json,.json';
+    this.fileInput.hidden = true;
+    this.fileInput.addEventListener('change', () => {
+      const file = this.fileInput.files?.[0];
+      if (file) {
+        this.importPack(file);
+      }
+    });
+    this.modal.appendChild(this.fileInput);
+
+    this.modal.addEventListener('click', (e) => {
+      if (e.target === this.modal) {
+        this.close();
+      }
+    });
+  }
+
+  open(): void {
+    this.expressions = loadCustomExpressions();
+    this.modal.classList.remove('hidden');
+    this.showList();
+  }
+
+  close(): void {
+    this.modal.classList.add('hidden');
+  }
+
+  isOpen(): boolean {
+    return !this.modal.classList.contains('hidden');
+  }
+
+  private commit(expressions: CustomExpression[]): void {
+    this.expressions = expressions;
+    saveCustomExpressions(expressions);
+    this.callbacks.onChange?.(expressions);
+  }
+
+  /**
+   * The saved faces, with pack import and export
+   */
+  private showList(): void {
+    this.content.innerHTML = '';
+    this.content.appendChild(el('h2', undefined, 'Custom Faces'));
+
+    const list = el('div', 'expression-list');
+    if (this.expressions.length === 0) {
+      list.appendChild(el('p', 'transcript-empty', 'No custom faces yet. Design one, or import a pack.'));
+    }
+    this.expressions.forEach((expression) => {
+      const item = el('button', 'expression-item');
+      item.type = 'button';
+      item.appendChild(createPreview(expression));
+      const label = el('span', 'expression-item-label', expression.name);
+      label.appendChild(
+        el('small', undefined, expression.replaces ? `Replaces ${expression.replaces}` : `custom:${expression.id}`)
+      );
+      item.appendChild(label);
+      item.addEventListener('click', () => this.showEditor(expression));
+      list.appendChild(item);
+    });
+    this.content.appendChild(list);
+
+    const pack = el('div', 'backup-actions');
+    const importBtn = el('button', 'btn-secondary', 'Import pack');
+    importBtn.type = 'button';
+    importBtn.addEventListener('click', () => this.fileInput.click());
+    const exportBtn = el('button', 'btn-secondary', 'Export pack');
+    exportBtn.type = 'button';
+    exportBtn.disabled = this.expressions.length === 0;
+    exportBtn.addEventListener('click', () => this.exportPack());
+    pack.append(importBtn, exportBtn);
+    this.content.appendChild(pack);
+
+    const actions = el('div', 'modal-actions');
+    const newBtn = el('button', 'btn-primary', 'New face');
+    newBtn.addEventListener('click', () => this.showEditor(null));
+    const closeBtn = el('button', 'btn-secondary', 'Close');
+    closeBtn.addEventListener('click', () => this.close());
+    actions.append(newBtn, closeBtn);
+    this.content.appendChild(actions);
+  }
+
+  /**
+   * Edit one face (null designs a new one)
+   */
+  private showEditor(original: CustomExpression | null): void {
+    const draft: CustomExpression = original
+      ? { ...original, left: copyEye(original.left), right: original.right && copyEye(original.right) }
+      : {
+          id: '',
+          name: '',
+          left: copyEye(DEFAULT_EYE),
+          right: null,
+          color: DEFAULT_EYE_COLOR,
+          blink: true,
+          replaces: null,
+        };
+    let editingRight = false;
+
+    this.content.innerHTML = '';
+    this.content.appendChild(el('h2', undefined, original ? 'Edit Face' : 'New Face'));
+
+    const preview = createPreview(draft);
+    const previewFace = preview.querySelector('.face') as HTMLElement;
+    const redraw = () => applyCustomExpression(previewFace, draft);
+    this.content.appendChild(preview);
+
+    // Name and id
+    const nameGroup = el('div', 'form-group');
+    const nameInput = el('input');
+    nameInput.type = 'text';
+    nameInput.placeholder = 'Wide-eyed';
+    nameInput.value = draft.name;
+    const idInput = el('input');
+    idInput.type = 'text';
+    idInput.placeholder = 'wide-eyed';
+    idInput.value = draft.id;
+    idInput.spellcheck = false;
+    let idEdited = !!original;
+    nameInput.addEventListener('input', () => {
+      if (!idEdited) idInput.value = slugify(nameInput.value);
+    });
+    idInput.addEventListener('input', () => (idEdited = true));
+    const idLabel = el('label', undefined, 'Id');
+    idLabel.style.marginTop = '12px';
+    nameGroup.append(el('label', undefined, 'Name'), nameInput, idLabel, idInput);
+    nameGroup.appendChild(
+      el('small', 'expression-hint', 'Lowercase letters, digits and -. Choreographies and personas show it as custom:<id>')
+    );
+    this.content.appendChild(nameGroup);
+
+    // Look
+    const lookGroup = el('div', 'form-group');
+    const colorInput = el('input', 'expression-color');
+    colorInput.type = 'color';
+    colorInput.value = draft.color;
+    colorInput.addEventListener('input', () => {
+      draft.color = colorInput.value.toLowerCase();
+      redraw();
+    });
+    const replacesSelect = el('select');
+    replacesSelect.appendChild(new Option('Nothing - only shown by id', ''));
+    REPLACEABLE_EXPRESSIONS.forEach((expression) => replacesSelect.appendChild(new Option(expression, expression)));
+    replacesSelect.value = draft.replaces ?? '';
+    replacesSelect.addEventListener('change', () => {
+      draft.replaces = (replacesSelect.value || null) as Expression | null;
+    });
+    const replacesLabel = el('label', undefined, 'Shown instead of');
+    replacesLabel.style.marginTop = '12px';
+    lookGroup.append(el('label', undefined, 'Eye color'), colorInput, replacesLabel, replacesSelect);
+
+    const checks = el('div', 'checkbox-row');
+    this.checkbox(checks, 'Blinks', draft.blink, (checked) => (draft.blink = checked));
+    const mirrorCheckbox = this.checkbox(checks, 'Mirror right eye', !draft.right, (checked) => {
+      draft.right = checked ? null : rightEye(draft);
+      editingRight = editingRight && !checked;
+      eyeSelect.value = editingRight ? 'right' : 'left';
+      eyeSelectGroup.style.display = checked ? 'none' : 'block';
+      fillSliders();
+      redraw();
+    });
+    lookGroup.appendChild(checks);
+    this.content.appendChild(lookGroup);
+
+    // Eye shape
+    const eyeSelectGroup = el('div', 'form-group');
+    const eyeSelect = el('select');
+    eyeSelect.append(new Option('Left eye', 'left'), new Option('Right eye', 'right'));
+    eyeSelect.addEventListener('change', () => {
+      editingRight = eyeSelect.value === 'right';
+      fillSliders();
+    });
+    eyeSelectGroup.append(el('label', undefined, 'Editing'), eyeSelect);
+    eyeSelectGroup.style.display = mirrorCheckbox.checked ? 'none' : 'block';
+    this.content.appendChild(eyeSelectGroup);
+
+    const shapeGroup = el('div', 'form-group');
+    const eye = (): EyeShape => (editingRight && draft.right ? draft.right : draft.left);
+    const sliders: { input: HTMLInputElement; value: HTMLElement; read: () => number }[] = [];
+
+    const addSlider = (label: string, min: number, max: number, read: () => number, write: (n: number) => void) => {
+      const row = el('label', 'expression-slider');
+      const value = el('span', 'expression-slider-value');
+      const input = el('input');
+      input.type = 'range';
+      input.min = String(min);
+      input.max = String(max);
+      input.step = '1';
+      input.addEventListener('input', () => {
+        write(Number(input.value));
+        value.textContent = input.value;
+        redraw();
+      });
+      row.append(el('span', undefined, label), value, input);
+      shapeGroup.appendChild(row);
+      sliders.push({ input, value, read });
+    };
+
+    EYE_SLIDERS.forEach(([label, field, min, max]) =>
+      addSlider(label, min, max, () => eye()[field], (n) => (eye()[field] = n))
+    );
+    CORNER_LABELS.forEach((label, corner) =>
+      addSlider(label, 0, 40, () => eye().radius[corner], (n) => (eye().radius[corner] = n))
+    );
+
+    const fillSliders = () =>
+      sliders.forEach(({ input, value, read }) => {
+        input.value = String(read());
+        value.textContent = input.value;
+      });
+    fillSliders();
+    this.content.appendChild(shapeGroup);
+
+    // Actions
+    const actions = el('div', 'modal-actions');
+    const saveBtn = el('button', 'btn-primary', 'Save');
+    saveBtn.addEventListener('click', () => {
+      draft.name = nameInput.value.trim();
+      draft.id = idInput.value.trim();
+      this.save(original, draft);
+    });
+    actions.appendChild(saveBtn);
+    if (original) {
+      const deleteBtn = el('button', 'btn-secondary', 'Delete');
+      deleteBtn.addEventListener('click', () => {
+        if (!confirm(`Delete "${original.name}"?`)) return;
+        this.commit(this.expressions.filter((expression) => expression.id !== original.id));
+        this.showList();
+      });
+      actions.appendChild(deleteBtn);
+    }
+    const backBtn = el('button', 'btn-secondary', 'Back');
+    backBtn.addEventListener('click', () => this.showList());
+    actions.appendChild(backBtn);
+    this.content.appendChild(actions);
+  }
+
+  private checkbox(row: HTMLElement, text: string, checked: boolean, onChange: (checked: boolean) => void): HTMLInputElement {
+    const label = el('label');
+    const input = el('input');
+    input.type = 'checkbox';
+    input.checked = checked;
+    input.addEventListener('change', () => onChange(input.checked));
+    label.append(input, text);
+    row.appendChild(label);
+    return input;
+  }
+
+  private save(original: CustomExpression | null, draft: CustomExpression): void {
+    let expression: CustomExpression;
+    try {
+      [expression] = parseCustomExpressions([draft]);
+    } catch (error: any) {
+      alert(error.message);
+      return;
+    }
+
+    if (expression.id !== original?.id && this.expressions.some((other) => other.id === expression.id)) {
+      alert(`A face with the id "${expression.id}" already exists`);
+      return;
+    }
+
+    const others = this.expressions.filter((other) => other.id !== original?.id);
+    const index = original ? this.expressions.findIndex((other) => other.id === original.id) : -1;
+    others.splice(index === -1 ? others.length : index, 0, expression);
+    this.commit(others);
+    console.log(`🎨 Saved custom expression: ${expression.id}`);
+    this.showList();
+  }
+
+  /**
+   * Download the custom faces as an expression pack file
+   */
+  private exportPack(): void {
+    const name = prompt('Pack name', 'My Kuchi faces');
+    if (name === null) return;
+
+    const pack = createExpressionPack(name.trim() || 'My Kuchi faces', this.expressions);
+    const blob = new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `kuchi-faces-${slugify(pack.name) || 'pack'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    console.log(`📤 Expression pack exported (${pack.expressions.length} faces)`);
+  }
+
+  /**
+   * Add the faces in a pack file - faces with an existing id are replaced
+   */
+  private async importPack(file: File): Promise<void> {
+    try {
+      const pack = parseExpressionPack(await file.text());
+      this.commit(mergeExpressions(this.expressions, pack.expressions));
+      console.log(`📥 Expression pack "${pack.name}" imported (${pack.expressions.length} faces)`);
+      this.showList();
+    } catch (error: any) {
+      console.error('Expression pack import failed:', error);
+      alert(`Import failed: ${error.message || error}`);
+    } finally {
+      this.fileInput.value = '';
+    }
+  }
+}
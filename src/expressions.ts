@@ -0,0 +1,255 @@
+/**
+ * Kuchi - Custom Expressions
+ * Faces defined as data (eye shapes, positions, color, blink policy) instead of CSS,
+ * saved in localStorage and shared as JSON expression packs
+ */
+
+import type { Expression } from './robot';
+import { REPLY_EXPRESSIONS } from './emotion';
+
+export interface EyeShape {
+  width: number;   // px (the default eye is 28 x 34)
+  height: number;  // px
+  radius: [number, number, number, number];  // Corner radii in px: top-left, top-right, bottom-right, bottom-left
+  x: number;       // Offset from the eye's resting place (px)
+  y: number;
+  rotate: number;  // Degrees, clockwise
+}
+
+export interface CustomExpression {
+  id: string;                  // Shown with setExpression('custom:<id>')
+  name: string;
+  left: EyeShape;
+  right: EyeShape | null;      // null mirrors the left eye
+  color: string;               // Eye color, #rrggbb
+  blink: boolean;              // Whether Kuchi blinks while showing it
+  replaces: Expression | null; // Built-in face this one is shown instead of (e.g. 'happy')
+}
+
+export interface ExpressionPack {
+  format: typeof PACK_FORMAT;
+  version: 1;
+  name: string;
+  expressions: CustomExpression[];
+}
+
+export const CUSTOM_EXPRESSIONS_STORAGE_KEY = 'kuchi_custom_expressions';
+
+const PACK_FORMAT = 'kuchi-expression-pack';
+const ID_PATTERN = /^[a-z0-9-]{1,32}$/;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+export const DEFAULT_EYE: EyeShape = { width: 28, height: 34, radius: [5, 5, 5, 5], x: 0, y: 0, rotate: 0 };
+export const DEFAULT_EYE_COLOR = '#00e5cc';
+
+// Built-in faces a custom one may stand in for
+export const REPLACEABLE_EXPRESSIONS: Expression[] = [
+  ...REPLY_EXPRESSIONS,
+  'listening', 'thinking', 'drowsy', 'squint', 'googly', 'error',
+];
+
+// Built-in faces Kuchi doesn't blink during (the eyes are closed, squeezed or animated)
+export const NO_BLINK_EXPRESSIONS: Expression[] = [
+  'blink', 'happy', 'glee', 'sleepy', 'drowsy', 'squint', 'wink',
+  'annoyed', 'focused', 'frustrated', 'error', 'dead',
+  'angry', 'furious', 'love', 'dizzy', 'googly', 'starry', 'crying',
+];
+
+/**
+ * The custom expression id in an expression name ('custom:wide-eyes' -> 'wide-eyes'), or null for built-in faces
+ */
+export function customExpressionId(expression: Expression): string | null {
+  return expression.startsWith('custom:') ? expression.slice('custom:'.length) : null;
+}
+
+/**
+ * The right eye as drawn: its own shape, or the left eye mirrored
+ */
+export function rightEye(expression: CustomExpression): EyeShape {
+  if (expression.right) return expression.right;
+
+  const [topLeft, topRight, bottomRight, bottomLeft] = expression.left.radius;
+  return {
+    ...expression.left,
+    radius: [topRight, topLeft, bottomLeft, bottomRight],
+    x: -expression.left.x,
+    rotate: -expression.left.rotate,
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function readEye(value: unknown, fail: (message: string) => never, label: string): EyeShape {
+  if (!isPlainObject(value)) fail(`${label} eye must be an object`);
+  const eye = value as Record<string, unknown>;
+
+  const number = (field: string, min: number, max: number): number => {
+    const n = eye[field] ?? DEFAULT_EYE[field as keyof EyeShape];
+    if (typeof n !== 'number' || !Number.isFinite(n) || n < min || n > max) {
+      fail(`${label} eye ${field} must be a number from ${min} to ${max}`);
+    }
+    return n as number;
+  };
+
+  const radius = eye.radius ?? DEFAULT_EYE.radius;
+  const corners = typeof radius === 'number' ? [radius, radius, radius, radius] : radius;
+  if (
+    !Array.isArray(corners) ||
+    corners.length !== 4 ||
+    corners.some((corner) => typeof corner !== 'number' || !Number.isFinite(corner) || corner < 0 || corner > 40)
+  ) {
+    fail(`${label} eye radius must be a number or 4 numbers from 0 to 40`);
+  }
+
+  return {
+    width: number('width', 2, 60),
+    height: number('height', 2, 60),
+    radius: [...corners] as EyeShape['radius'],
+    x: number('x', -30, 30),
+    y: number('y', -30, 30),
+    rotate: number('rotate', -180, 180),
+  };
+}
+
+/**
+ * Validate custom expression definitions, filling in defaults
+ * Throws with a message naming the first bad expression
+ */
+export function parseCustomExpressions(data: unknown): CustomExpression[] {
+  if (!Array.isArray(data)) {
+    throw new Error('Expressions must be a JSON array');
+  }
+
+  const ids = new Set<string>();
+
+  return data.map((item, index) => {
+    const label = isPlainObject(item) && typeof item.id === 'string' ? `"${item.id}"` : `#${index + 1}`;
+    const fail = (message: string): never => {
+      throw new Error(`Expression ${label}: ${message}`);
+    };
+
+    if (!isPlainObject(item)) fail('must be an object');
+    const expression = item as Record<string, unknown>;
+
+    if (typeof expression.id !== 'string' || !ID_PATTERN.test(expression.id)) {
+      fail('id must be 1-32 lowercase letters, digits or -');
+    }
+    const id = expression.id as string;
+    if (ids.has(id)) fail('id is used more than once');
+    ids.add(id);
+
+    const color = expression.color ?? DEFAULT_EYE_COLOR;
+    if (typeof color !== 'string' || !COLOR_PATTERN.test(color)) fail('color must be a hex color like #00e5cc');
+
+    const replaces = expression.replaces ?? null;
+    if (replaces !== null && !REPLACEABLE_EXPRESSIONS.includes(replaces as Expression)) {
+      fail(`replaces must be one of ${REPLACEABLE_EXPRESSIONS.join(', ')}`);
+    }
+
+    return {
+      id,
+      name: typeof expression.name === 'string' && expression.name.trim() ? expression.name.trim() : id,
+      left: readEye(expression.left, fail, 'left'),
+      right: expression.right == null ? null : readEye(expression.right, fail, 'right'),
+      color: (color as string).toLowerCase(),
+      blink: expression.blink !== false,
+      replaces: replaces as Expression | null,
+    };
+  });
+}
+
+/**
+ * Saved custom expressions (empty if none, or if the saved JSON is invalid)
+ */
+export function loadCustomExpressions(): CustomExpression[] {
+  const saved = localStorage.getItem(CUSTOM_EXPRESSIONS_STORAGE_KEY);
+  if (!saved) return [];
+
+  try {
+    return parseCustomExpressions(JSON.parse(saved));
+  } catch (error) {
+    console.warn('🎨 Failed to load custom expressions:', error);
+    return [];
+  }
+}
+
+export function saveCustomExpressions(expressions: CustomExpression[]): void {
+  if (expressions.length === 0) {
+    localStorage.removeItem(CUSTOM_EXPRESSIONS_STORAGE_KEY);
+  } else {
+    localStorage.setItem(CUSTOM_EXPRESSIONS_STORAGE_KEY, JSON.stringify(expressions));
+  }
+}
+
+export function createExpressionPack(name: string, expressions: CustomExpression[]): ExpressionPack {
+  return { format: PACK_FORMAT, version: 1, name, expressions };
+}
+
+/**
+ * Read an expression pack file (a plain array of expressions is accepted too)
+ */
+export function parseExpressionPack(json: string): ExpressionPack {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Expression pack is not valid JSON');
+  }
+
+  if (Array.isArray(data)) {
+    return createExpressionPack('Imported', parseCustomExpressions(data));
+  }
+  if (!isPlainObject(data) || data.format !== PACK_FORMAT) {
+    throw new Error('Not a Kuchi expression pack');
+  }
+  if (data.version !== 1) {
+    throw new Error(`Unsupported expression pack version: ${data.version}`);
+  }
+
+  return createExpressionPack(
+    typeof data.name === 'string' ? data.name : 'Imported',
+    parseCustomExpressions(data.expressions)
+  );
+}
+
+/**
+ * Add imported expressions to the current ones - an imported expression replaces one with the same id
+ */
+export function mergeExpressions(current: CustomExpression[], imported: CustomExpression[]): CustomExpression[] {
+  const merged = new Map(current.map((expression) => [expression.id, expression]));
+  imported.forEach((expression) => merged.set(expression.id, expression));
+  return [...merged.values()];
+}
+
+function setEyeStyle(eye: HTMLElement, shape: EyeShape, color: string): void {
+  eye.style.setProperty('--eye-width', `${shape.width}px`);
+  eye.style.setProperty('--eye-height', `${shape.height}px`);
+  eye.style.setProperty('--eye-radius', shape.radius.map((corner) => `${corner}px`).join(' '));
+  eye.style.setProperty('--eye-x', `${shape.x}px`);
+  eye.style.setProperty('--eye-y', `${shape.y}px`);
+  eye.style.setProperty('--eye-rotate', `${shape.rotate}deg`);
+  eye.style.setProperty('--eye-color', color);
+}
+
+const EYE_PROPERTIES = ['--eye-width', '--eye-height', '--eye-radius', '--eye-x', '--eye-y', '--eye-rotate', '--eye-color'];
+
+/**
+ * Draw a custom expression on a face element (its .eye.left and .eye.right), or clear it with null
+ * The shapes come from the .expr-custom rules in styles.css
+ */
+export function applyCustomExpression(face: HTMLElement, expression: CustomExpression | null): void {
+  const left = face.querySelector('.eye.left') as HTMLElement | null;
+  const right = face.querySelector('.eye.right') as HTMLElement | null;
+
+  face.classList.toggle('expr-custom', !!expression);
+
+  if (!expression) {
+    [left, right].forEach((eye) => EYE_PROPERTIES.forEach((property) => eye?.style.removeProperty(property)));
+    return;
+  }
+
+  if (left) setEyeStyle(left, expression.left, expression.color);
+  if (right) setEyeStyle(right, rightEye(expression), expression.color);
+}
@@ -0,0 +1,108 @@
+/**
+ * Kuchi - Face Renderers
+ * RobotFace decides which face to show; a renderer draws it on the screen's .face element
+ */
+
+import type { Expression } from './robot';
+import type { Gaze } from './gaze';
+import { applyCustomExpression, customExpressionId, type CustomExpression } from './expressions';
+
+export type FaceRendererType = 'dom' | 'led';
+
+export interface FaceFrame {
+  expression: Expression;
+  custom: CustomExpression | null;  // User-designed face to draw instead of the built-in one
+  intensity: number;                // 0-1, how far from neutral (renderers that can't blend show it fully)
+  transitionMs: number;             // Length of the change into this face
+  easing: string | null;            // CSS timing function for the change (null: the eyes' usual curve)
+}
+
+export interface FaceRenderer {
+  readonly type: FaceRendererType;
+  mount(face: HTMLElement): void;
+  render(frame: FaceFrame): void;
+  setBlinking(blinking: boolean): void;
+  setGaze(gaze: Gaze): void;  // Shifts the eyes on top of the expression
+  destroy(): void;  // Leaves the face element as mount found it
+}
+
+export const FACE_RENDERER_STORAGE_KEY = 'kuchi_face_renderer';
+
+export const FACE_RENDERERS: { id: FaceRendererType; name: string }[] = [
+  { id: 'dom', name: 'Smooth eyes' },
+  { id: 'led', name: 'LED matrix' },
+];
+
+export function loadFaceRendererType(): FaceRendererType {
+  const saved = localStorage.getItem(FACE_RENDERER_STORAGE_KEY);
+  return FACE_RENDERERS.some((renderer) => renderer.id === saved) ? (saved as FaceRendererType) : 'dom';
+}
+
+export function saveFaceRendererType(type: FaceRendererType): void {
+  localStorage.setItem(FACE_RENDERER_STORAGE_KEY, type);
+}
+
+/**
+ * The default renderer: an expr-* class on the face, with the eye shapes in styles.css
+ * Faces snap at full intensity, with CSS transitions in between
+ */
+export class DomFaceRenderer implements FaceRenderer {
+  readonly type = 'dom' as const;
+  private face: HTMLElement | null = null;
+
+  mount(face: HTMLElement): void {
+    this.face = face;
+  }
+
+  render(frame: FaceFrame): void {
+    const face = this.face;
+    if (!face) return;
+
+    face.style.setProperty('--expr-transition', `${frame.transitionMs}ms`);
+    if (frame.easing) {
+      face.style.setProperty('--expr-easing', frame.easing);
+    } else {
+      face.style.removeProperty('--expr-easing');
+    }
+
+    // Remove all expression classes
+    [...face.classList].filter((cls) => cls.startsWith('expr-')).forEach((cls) => face.classList.remove(cls));
+
+    // Add new expression class - custom faces are drawn from their definition instead
+    const expression = frame.expression;
+    applyCustomExpression(face, frame.custom);
+    if (!frame.custom && expression !== 'neutral' && expression !== 'idle' && !customExpressionId(expression)) {
+      face.classList.add(`expr-${expression}`);
+    }
+  }
+
+  /**
+   * Blinking is an overlay class, so it never hides an expression change
+   */
+  setBlinking(blinking: boolean): void {
+    this.face?.classList.toggle('blinking', blinking);
+  }
+
+  /**
+   * The eyes container's translate composes with the expression's own eye transforms
+   */
+  setGaze(gaze: Gaze): void {
+    this.face?.style.setProperty('--gaze-x', gaze.x.toFixed(3));
+    this.face?.style.setProperty('--gaze-y', gaze.y.toFixed(3));
+  }
+
+  destroy(): void {
+    const face = this.face;
+    if (!face) return;
+
+    [...face.classList]
+      .filter((cls) => cls.startsWith('expr-') || cls === 'blinking')
+      .forEach((cls) => face.classList.remove(cls));
+    applyCustomExpression(face, null);
+    face.style.removeProperty('--expr-transition');
+    face.style.removeProperty('--expr-easing');
+    face.style.removeProperty('--gaze-x');
+    face.style.removeProperty('--gaze-y');
+    this.face = null;
+  }
+}
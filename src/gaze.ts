@@ -0,0 +1,164 @@
+/**
+ * Kuchi - Gaze
+ * Where the eyes look (-1 to 1 on each axis): at the pointer or the last touch, relative to the screen.
+ * The eyes jump to a new point in quick saccades, follow small moves smoothly,
+ * and drift back to the centre once the pointer has been still for a while
+ */
+
+export interface Gaze {
+  x: number;  // -1 left - 1 right
+  y: number;  // -1 up - 1 down
+}
+
+const REACH_PX = 250;           // Pointer distance from the screen that gives half the full gaze
+const SACCADE_THRESHOLD = 0.15; // Target moves larger than this are a jump, smaller ones are followed
+const SACCADE_MS = 70;
+const PURSUIT = 0.12;           // Share of the way to the target followed per frame
+const RETURN_AFTER_MS = 3000;   // Pointer still this long - look back at the centre
+const MICRO_SACCADE_MIN_MS = 600;
+const MICRO_SACCADE_MAX_MS = 2000;
+const MICRO_SACCADE_SIZE = 0.06;
+
+const CENTER: Gaze = { x: 0, y: 0 };
+
+function distance(a: Gaze, b: Gaze): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+export class GazeTracker {
+  private screen: HTMLElement;
+  private onGaze: (gaze: Gaze) => void;
+  private enabled = true;
+  private target: Gaze = CENTER;    // Where the eyes want to look
+  private fixation: Gaze = CENTER;  // Where the current saccade lands
+  private current: Gaze = CENTER;   // Where they look right now
+  private reported: Gaze = CENTER;
+  private saccadeFrom: Gaze = CENTER;
+  private saccadeStart = 0;
+  private returnAt = 0;             // When the eyes go back to the centre
+  private nextMicroSaccade = 0;
+  private frame: number | null = null;
+
+  constructor(screen: HTMLElement, onGaze: (gaze: Gaze) => void) {
+    this.screen = screen;
+    this.onGaze = onGaze;
+    window.addEventListener('pointermove', this.handlePointer, { passive: true });
+    window.addEventListener('pointerdown', this.handlePointer, { passive: true });
+  }
+
+  private handlePointer = (event: PointerEvent): void => {
+    if (!this.enabled) return;
+
+    const rect = this.screen.getBoundingClientRect();
+    if (rect.width === 0) return;  // Not on screen
+
+    const dx = event.clientX - (rect.left + rect.width / 2);
+    const dy = event.clientY - (rect.top + rect.height / 2);
+    const length = Math.hypot(dx, dy);
+
+    // Saturates smoothly: far away looks all the way, never further
+    const reach = length / (length + REACH_PX);
+    this.lookAt(length > 0 ? { x: (dx / length) * reach, y: (dy / length) * reach } : CENTER, RETURN_AFTER_MS);
+  };
+
+  /**
+   * Look somewhere for a while, then back at the centre
+   */
+  lookAt(gaze: Gaze, holdMs: number): void {
+    if (!this.enabled) return;
+
+    this.target = gaze;
+    this.returnAt = performance.now() + holdMs;
+    this.start();
+  }
+
+  /**
+   * Whether the eyes are following something (the pointer or a glance) instead of resting
+   */
+  isTracking(): boolean {
+    return performance.now() < this.returnAt;
+  }
+
+  /**
+   * Stop following (e.g. while asleep) - the eyes go back to the centre
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    if (!enabled) {
+      this.returnAt = 0;
+      this.start();
+    }
+  }
+
+  private start(): void {
+    if (this.frame === null) {
+      this.frame = requestAnimationFrame(this.tick);
+    }
+  }
+
+  private saccadeTo(gaze: Gaze, now: number): void {
+    this.saccadeFrom = this.current;
+    this.fixation = gaze;
+    this.saccadeStart = now;
+  }
+
+  private tick = (now: number): void => {
+    const tracking = now < this.returnAt;
+    if (!tracking) {
+      this.target = CENTER;
+    }
+
+    const inSaccade = now - this.saccadeStart < SACCADE_MS;
+    if (!inSaccade) {
+      if (distance(this.target, this.fixation) > SACCADE_THRESHOLD) {
+        this.saccadeTo(this.target, now);
+      } else if (tracking && now >= this.nextMicroSaccade) {
+        // Tiny jumps while fixating keep the eyes from looking frozen
+        const jitter = () => (Math.random() * 2 - 1) * MICRO_SACCADE_SIZE;
+        this.saccadeTo({ x: this.target.x + jitter(), y: this.target.y + jitter() }, now);
+        this.nextMicroSaccade =
+          now + MICRO_SACCADE_MIN_MS + Math.random() * (MICRO_SACCADE_MAX_MS - MICRO_SACCADE_MIN_MS);
+      } else {
+        // Smooth pursuit of small moves
+        this.fixation = {
+          x: this.fixation.x + (this.target.x - this.fixation.x) * PURSUIT,
+          y: this.fixation.y + (this.target.y - this.fixation.y) * PURSUIT,
+        };
+      }
+    }
+
+    const progress = Math.min(1, (now - this.saccadeStart) / SACCADE_MS);
+    const eased = 1 - (1 - progress) ** 3;
+    this.current = {
+      x: this.saccadeFrom.x + (this.fixation.x - this.saccadeFrom.x) * eased,
+      y: this.saccadeFrom.y + (this.fixation.y - this.saccadeFrom.y) * eased,
+    };
+
+    if (distance(this.current, this.reported) > 0.002) {
+      this.reported = this.current;
+      this.onGaze(this.current);
+    }
+
+    // Rest once back at the centre
+    const settled = !tracking && progress >= 1 && distance(this.current, CENTER) < 0.002;
+    if (settled) {
+      this.current = this.fixation = this.saccadeFrom = CENTER;
+      if (this.reported !== CENTER) {
+        this.reported = CENTER;
+        this.onGaze(CENTER);
+      }
+      this.frame = null;
+      return;
+    }
+    this.frame = requestAnimationFrame(this.tick);
+  };
+
+  destroy(): void {
+    window.removeEventListener('pointermove', this.handlePointer);
+    window.removeEventListener('pointerdown', this.handlePointer);
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Kuchi - Conversation History
+ * Stores conversations as sessions in IndexedDB so they survive reloads
+ */
+
+import type { Message } from './openai';
+import type { Expression } from './robot';
+import type { CitedSource } from './search';
+
+export interface TranscriptToolCall {
+  name: string;
+  arguments: string;
+  result: string;
+}
+
+export interface TranscriptEntry {
+  role: 'user' | 'assistant';
+  text: string;
+  timestamp: string;
+  expression?: Expression;          // Face shown while the reply was spoken
+  toolCalls?: TranscriptToolCall[]; // Tools the agent ran for this reply
+  sources?: CitedSource[];          // Search sources behind this reply
+  interrupted?: boolean;            // The user cut the reply off while it was spoken
+}
+
+export interface ConversationSession {
+  id: string;
+  title: string;
+  started: string;
+  updated: string;
+  entries: TranscriptEntry[];       // Full transcript, never trimmed
+  messages: Message[];              // Agent context (without system prompt) for resuming
+  summary?: string;                 // Running summary of turns folded out of the agent context
+}
+
+const DB_NAME = 'kuchi_history';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class ConversationStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Open the database (once), creating the sessions store on first use
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        if (!('indexedDB' in window)) {
+          reject(new Error('IndexedDB not supported'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(SESSION_STORE)) {
+            const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+            store.createIndex('updated', 'updated');
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // Allow a retry after a failed open
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(SESSION_STORE, mode).objectStore(SESSION_STORE);
+  }
+
+  /**
+   * Create a new empty session (not saved until it has entries)
+   */
+  createSession(): ConversationSession {
+    const now = new Date().toISOString();
+    return {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      title: 'New conversation',
+      started: now,
+      updated: now,
+      entries: [],
+      messages: [],
+    };
+  }
+
+  async save(session: ConversationSession): Promise<void> {
+    const store = await this.store('readwrite');
+    await promisify(store.put(session));
+    console.log(`📜 Saved session ${session.id} (${session.entries.length} entries)`);
+  }
+
+  async get(id: string): Promise<ConversationSession | null> {
+    const store = await this.store('readonly');
+    return (await promisify(store.get(id))) ?? null;
+  }
+
+  /**
+   * All sessions, most recently updated first
+   */
+  async list(): Promise<ConversationSession[]> {
+    const store = await this.store('readonly');
+    const sessions = await promisify(store.index('updated').getAll());
+    return (sessions as ConversationSession[]).reverse();
+  }
+
+  /**
+   * Sessions whose title or transcript contains the query
+   */
+  async search(query: string): Promise<ConversationSession[]> {
+    const sessions = await this.list();
+    const needle = query.trim().toLowerCase();
+    if (!needle) return sessions;
+
+    return sessions.filter(
+      (session) =>
+        session.title.toLowerCase().includes(needle) ||
+        session.entries.some((entry) => entry.text.toLowerCase().includes(needle))
+    );
+  }
+
+  async delete(id: string): Promise<void> {
+    const store = await this.store('readwrite');
+    await promisify(store.delete(id));
+    console.log(`📜 Deleted session ${id}`);
+  }
+}
@@ -135,10 +135,12 @@ export class DragManager {
     const target = e.target as HTMLElement;
     const isMicButton = target.closest('#micBtn');
     const isSettingsButton = target.closest('#settingsBtn');
+    const isHistoryButton = target.closest('#historyBtn');
+    const isSourceCard = target.closest('#sourceCards');
     const isModal = target.closest('.modal');
 
     // Don't interfere with UI button touches
-    if (isMicButton || isSettingsButton || isModal) {
+    if (isMicButton || isSettingsButton || isHistoryButton || isSourceCard || isModal) {
       return;
     }
 
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { detectLanguage, findLanguage } from './language';
+
+describe('detectLanguage', () => {
+  it('recognises scripts', () => {
+    expect(detectLanguage('आज मौसम कैसा है?')).toBe('hi');
+    expect(detectLanguage('今日の天気はどうですか')).toBe('ja');
+    expect(detectLanguage('今天天气怎么样')).toBe('zh');
+    expect(detectLanguage('كيف حالك اليوم')).toBe('ar');
+  });
+
+  it('recognises Latin-script languages by common words', () => {
+    expect(detectLanguage('What is the weather like today?')).toBe('en');
+    expect(detectLanguage('¿Cómo está el tiempo para mañana?')).toBe('es');
+    expect(detectLanguage('Wie ist das Wetter heute?')).toBe('de');
+    expect(detectLanguage('mujhe ek gaana sunao')).toBe('hi');
+  });
+
+  it('returns null when it cannot tell', () => {
+    expect(detectLanguage('')).toBeNull();
+    expect(detectLanguage('12:45')).toBeNull();
+    expect(detectLanguage('Kuchi')).toBeNull();
+    // "la" is both Spanish and French
+    expect(detectLanguage('la')).toBeNull();
+  });
+});
+
+describe('findLanguage', () => {
+  it('falls back to English', () => {
+    expect(findLanguage('fr').locale).toBe('fr-FR');
+    expect(findLanguage('xx').code).toBe('en');
+  });
+});
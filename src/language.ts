@@ -0,0 +1,136 @@
+/**
+ * Kuchi - Languages
+ * The language setting, and per-turn language detection from what was said
+ */
+
+export type LanguageCode = 'en' | 'hi' | 'es' | 'fr' | 'de' | 'pt' | 'it' | 'ja' | 'zh' | 'ar' | 'bn' | 'ta';
+
+// 'auto' follows the language of each turn
+export type LanguageSetting = 'auto' | LanguageCode;
+
+export interface LanguageInfo {
+  code: LanguageCode;   // ISO 639-1, also sent to Whisper
+  name: string;         // English name, used in the system prompt
+  nativeName: string;
+  locale: string;       // BCP 47 tag for speech recognition and browser voices
+  script?: string;      // How replies should be written, when it isn't obvious
+}
+
+export const LANGUAGE_STORAGE_KEY = 'kuchi_language';
+
+export const LANGUAGES: LanguageInfo[] = [
+  { code: 'en', name: 'English', nativeName: 'English', locale: 'en-US' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', locale: 'hi-IN', script: 'Devanagari script' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español', locale: 'es-ES' },
+  { code: 'fr', name: 'French', nativeName: 'Français', locale: 'fr-FR' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch', locale: 'de-DE' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português', locale: 'pt-BR' },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano', locale: 'it-IT' },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語', locale: 'ja-JP' },
+  { code: 'zh', name: 'Chinese', nativeName: '中文', locale: 'zh-CN', script: 'simplified Chinese characters' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية', locale: 'ar-SA' },
+  { code: 'bn', name: 'Bengali', nativeName: 'বাংলা', locale: 'bn-IN', script: 'Bengali script' },
+  { code: 'ta', name: 'Tamil', nativeName: 'தமிழ்', locale: 'ta-IN', script: 'Tamil script' },
+];
+
+export function findLanguage(code: string): LanguageInfo {
+  return LANGUAGES.find((language) => language.code === code) || LANGUAGES[0];
+}
+
+/**
+ * Language to start with in auto mode: the browser's, if Kuchi knows it
+ */
+export function browserLanguage(): LanguageCode {
+  const code = (navigator.language || 'en').slice(0, 2).toLowerCase();
+  return LANGUAGES.some((language) => language.code === code) ? (code as LanguageCode) : 'en';
+}
+
+// Languages recognised by their script (Latin-script languages need the word lists below)
+const SCRIPTS: [LanguageCode, RegExp][] = [
+  ['hi', /[\u0900-\u097F]/g], // Devanagari
+  ['bn', /[\u0980-\u09FF]/g],
+  ['ta', /[\u0B80-\u0BFF]/g],
+  ['ar', /[\u0600-\u06FF]/g],
+  ['ja', /[\u3040-\u30FF]/g], // Hiragana and katakana
+  ['zh', /[\u4E00-\u9FFF]/g], // CJK ideographs
+];
+
+// Common short words, including romanized Hindi ("Hinglish") as recognizers often write it
+const COMMON_WORDS: Partial<Record<LanguageCode, string[]>> = {
+  en: ['the', 'is', 'are', 'you', 'what', 'and', 'of', 'to', 'it', 'my', 'me', 'how', 'can', 'please', 'this', 'do', 'i'],
+  hi: [
+    'hai', 'hain', 'kya', 'nahi', 'nahin', 'mujhe', 'mera', 'meri', 'aap', 'tum', 'kaise', 'kaisa', 'batao', 'bolo',
+    'sunao', 'karo', 'acha', 'accha', 'haan', 'ke', 'ki', 'ka', 'ko', 'se', 'mein', 'ek', 'aur', 'bhi', 'yeh', 'kyun',
+    'kab', 'kahan', 'theek', 'bahut', 'abhi', 'chahiye', 'hum',
+  ],
+  es: ['el', 'la', 'los', 'las', 'es', 'que', 'qué', 'de', 'y', 'por', 'para', 'cómo', 'como', 'está', 'estás', 'yo', 'tú', 'una', 'con'],
+  fr: ['le', 'la', 'les', 'est', 'et', 'je', 'tu', 'vous', 'que', 'quoi', 'comment', 'des', 'une', 'pour', 'avec', 'pas', 'oui'],
+  de: ['der', 'die', 'das', 'ist', 'und', 'ich', 'du', 'sie', 'nicht', 'wie', 'was', 'ein', 'eine', 'mit', 'für', 'bitte', 'ja'],
+  pt: ['o', 'os', 'as', 'é', 'e', 'que', 'de', 'não', 'você', 'como', 'está', 'uma', 'para', 'com', 'eu', 'obrigado', 'sim'],
+  it: ['il', 'lo', 'gli', 'è', 'e', 'che', 'di', 'non', 'come', 'sono', 'una', 'per', 'con', 'io', 'tu', 'grazie', 'sì'],
+};
+
+/**
+ * Guess the language of a transcript or reply
+ * Returns null when the text is too short or mixed to tell
+ */
+export function detectLanguage(text: string): LanguageCode | null {
+  const letters = text.match(/\p{L}/gu)?.length ?? 0;
+  if (letters === 0) return null;
+
+  // Non-Latin scripts: the script is the language (kana means Japanese even with kanji)
+  const scriptCounts = SCRIPTS.map(([code, pattern]) => [code, text.match(pattern)?.length ?? 0] as const);
+  const kana = scriptCounts.find(([code]) => code === 'ja')![1];
+  const [topScript, topCount] = scriptCounts.reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+  if (topCount / letters >= 0.3) {
+    return topScript === 'zh' && kana > 0 ? 'ja' : topScript;
+  }
+
+  // Latin script: count common words
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  let best: LanguageCode | null = null;
+  let bestScore = 0;
+  let tie = false;
+  for (const [code, list] of Object.entries(COMMON_WORDS) as [LanguageCode, string[]][]) {
+    const score = words.filter((word) => list.includes(word)).length;
+    if (score > bestScore) {
+      best = code;
+      bestScore = score;
+      tie = false;
+    } else if (score === bestScore && score > 0) {
+      tie = true;
+    }
+  }
+
+  // One hit is enough for short utterances, longer text needs two
+  const needed = words.length <= 3 ? 1 : 2;
+  return !tie && bestScore >= needed ? best : null;
+}
+
+/**
+ * System prompt instruction for the reply language
+ * @param setting - The language setting
+ * @param detected - Language of the user's latest message (auto mode)
+ */
+export function languageInstruction(setting: LanguageSetting, detected: LanguageCode | null): string {
+  const describe = (language: LanguageInfo) =>
+    language.script ? `${language.name}, written in ${language.script}` : language.name;
+
+  if (setting !== 'auto') {
+    return `Always reply in ${describe(findLanguage(setting))}, even if the user mixes in other languages.`;
+  }
+
+  const rule =
+    "Reply in the language of the user's latest message, and switch whenever the user switches or asks you to. " +
+    'Write Hindi in Devanagari script so it is pronounced correctly.';
+  return detected ? `${rule} The user's latest message is in ${describe(findLanguage(detected))}.` : rule;
+}
+
+export function loadLanguageSetting(): LanguageSetting {
+  const saved = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+  return saved && LANGUAGES.some((language) => language.code === saved) ? (saved as LanguageCode) : 'auto';
+}
+
+export function saveLanguageSetting(setting: LanguageSetting): void {
+  localStorage.setItem(LANGUAGE_STORAGE_KEY, setting);
+}
@@ -0,0 +1,352 @@
+/**
+ * Kuchi - LED Matrix Renderer
+ * Draws the eyes as a grid of glowing LEDs on a canvas, tweening eye shapes and colors
+ * between any two faces - and part of the way for weaker emotions (40% sad)
+ */
+
+import type { Expression } from './robot';
+import { DEFAULT_EYE, rightEye, type EyeShape } from './expressions';
+import type { FaceFrame, FaceRenderer } from './facerenderer';
+import type { Gaze } from './gaze';
+
+interface LedFace {
+  left: EyeShape;
+  right: EyeShape;
+  color: [number, number, number];
+}
+
+// The screen the eyes are laid out on, in CSS px (same as the DOM face)
+const SCREEN_WIDTH = 110;
+const SCREEN_HEIGHT = 65;
+const EYE_GAP = 18;
+const COLUMNS = 32;
+const ROWS = Math.round((COLUMNS * SCREEN_HEIGHT) / SCREEN_WIDTH);
+const PIXEL_RATIO = 2;      // Canvas pixels per screen px
+const BLINK_HEIGHT = 4;
+const BLINK_MS = 75;        // Closing (and opening) time of a blink
+const GAZE_X = 8;           // Eye shift at full gaze (px), as in the DOM face
+const GAZE_Y = 5;
+
+const CYAN: LedFace['color'] = [0, 229, 204];
+const PINK: LedFace['color'] = [255, 102, 204];
+const RED: LedFace['color'] = [255, 64, 64];
+const BLUE: LedFace['color'] = [80, 150, 255];
+const AMBER: LedFace['color'] = [255, 190, 60];
+const OFF_COLOR = 'rgba(255, 255, 255, 0.05)';
+
+function eye(shape: Partial<Omit<EyeShape, 'radius'>> & { radius?: number | EyeShape['radius'] } = {}): EyeShape {
+  const radius = shape.radius ?? DEFAULT_EYE.radius;
+  return {
+    ...DEFAULT_EYE,
+    ...shape,
+    radius: typeof radius === 'number' ? [radius, radius, radius, radius] : radius,
+  };
+}
+
+function face(left: EyeShape, right: EyeShape = left, color: LedFace['color'] = CYAN): LedFace {
+  return { left, right, color };
+}
+
+const NEUTRAL: LedFace = face(eye());
+
+// Eye shapes follow the DOM faces in styles.css ('50%' corners become half the shorter side, skews become tilts)
+const LED_FACES: Partial<Record<Expression, LedFace>> = {
+  blink: face(eye({ height: 4, radius: 2 })),
+  happy: face(eye({ width: 32, height: 10, radius: [18, 18, 4, 4], y: 6 }), undefined, PINK),
+  glee: face(eye({ width: 36, height: 7, radius: [18, 18, 2, 2], y: 8 }), undefined, PINK),
+  love: face(eye({ width: 28, height: 26, radius: 13, y: 2, rotate: -45 }), undefined, PINK),
+  excited: face(eye({ width: 34, height: 38, radius: 17 }), undefined, PINK),
+  awe: face(eye({ width: 36, height: 42, radius: 18 })),
+  starry: face(eye({ width: 34, height: 34, radius: 17 }), undefined, AMBER),
+  mischievous: face(eye({ width: 30, height: 10, radius: [15, 15, 3, 3], x: 4, y: 6 })),
+  sad: face(
+    eye({ width: 24, height: 28, radius: [5, 5, 10, 10], y: 6, rotate: -4 }),
+    eye({ width: 24, height: 28, radius: [5, 5, 10, 10], y: 6, rotate: 4 }),
+    BLUE,
+  ),
+  crying: face(eye({ width: 24, height: 28, radius: [5, 5, 10, 10], y: 6 }), undefined, BLUE),
+  worried: face(
+    eye({ width: 26, height: 32, radius: [2, 8, 5, 5], rotate: 6 }),
+    eye({ width: 26, height: 32, radius: [8, 2, 5, 5], rotate: -6 }),
+  ),
+  angry: face(
+    eye({ width: 30, height: 18, radius: [2, 6, 2, 2], y: 2, rotate: -10 }),
+    eye({ width: 30, height: 18, radius: [6, 2, 2, 2], y: 2, rotate: 10 }),
+    RED,
+  ),
+  furious: face(
+    eye({ width: 32, height: 14, radius: [2, 8, 2, 2], y: 3, rotate: -15 }),
+    eye({ width: 32, height: 14, radius: [8, 2, 2, 2], y: 3, rotate: 15 }),
+    RED,
+  ),
+  scared: face(eye({ width: 32, height: 40, radius: 16 })),
+  frustrated: face(eye({ width: 30, height: 14, radius: [2, 2, 5, 5], y: 6 }), undefined, AMBER),
+  surprised: face(eye({ width: 34, height: 38, radius: 17 })),
+  confused: face(eye({ width: 26, height: 28, y: -3 }), eye({ width: 22, height: 34, y: 3 })),
+  skeptic: face(eye({ width: 24, height: 18, radius: 4, y: 4 }), eye({ width: 30, height: 34 })),
+  suspicious: face(eye({ width: 32, height: 12, radius: 2, x: 3 })),
+  unimpressed: face(eye({ width: 30, height: 14, radius: [2, 2, 6, 6], y: 6 })),
+  annoyed: face(eye({ width: 32, height: 10, radius: 2, y: 4 }), undefined, AMBER),
+  sleepy: face(eye({ width: 28, height: 8, radius: [8, 8, 4, 4], y: 10 })),
+  drowsy: face(eye({ width: 28, height: 6, radius: [10, 10, 3, 3], y: 12 })),
+  squint: face(eye({ width: 32, height: 6, radius: 3, y: 8 })),
+  focused: face(eye({ width: 34, height: 16, radius: [2, 2, 4, 4] })),
+  pleading: face(eye({ width: 30, height: 36, radius: 15, y: -4 })),
+  wink: face(eye({ width: 30, height: 10, radius: [18, 18, 4, 4], y: 6 }), eye()),
+  dizzy: face(eye({ width: 32, height: 32, radius: 16, rotate: 45 }), undefined, AMBER),
+  googly: face(eye({ width: 32, height: 36, radius: 16 })),
+  listening: face(eye({ width: 30, height: 36, radius: 6 })),
+  thinking: face(eye({ width: 26, height: 30, x: 4, y: -5 }), eye({ width: 26, height: 30, x: 2, y: -5 })),
+  error: face(eye({ width: 26, height: 26, radius: 4 }), undefined, RED),
+  dead: face(eye({ width: 26, height: 4, radius: 2, rotate: 45 }), undefined, RED),
+  lookLeft: face(eye({ x: -6 })),
+  lookRight: face(eye({ x: 6 })),
+  lookUp: face(eye({ y: -6 })),
+  lookDown: face(eye({ y: 6 })),
+};
+
+function hexColor(hex: string): LedFace['color'] {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+function lerp(from: number, to: number, t: number): number {
+  return from + (to - from) * t;
+}
+
+function blendEye(from: EyeShape, to: EyeShape, t: number): EyeShape {
+  return {
+    width: lerp(from.width, to.width, t),
+    height: lerp(from.height, to.height, t),
+    radius: from.radius.map((corner, i) => lerp(corner, to.radius[i], t)) as EyeShape['radius'],
+    x: lerp(from.x, to.x, t),
+    y: lerp(from.y, to.y, t),
+    rotate: lerp(from.rotate, to.rotate, t),
+  };
+}
+
+/**
+ * A face part of the way from one to another (t = 0: from, 1: to)
+ */
+function blendFace(from: LedFace, to: LedFace, t: number): LedFace {
+  return {
+    left: blendEye(from.left, to.left, t),
+    right: blendEye(from.right, to.right, t),
+    color: from.color.map((channel, i) => lerp(channel, to.color[i], t)) as LedFace['color'],
+  };
+}
+
+/**
+ * A CSS cubic-bezier timing function as a function of progress (0-1)
+ */
+function cubicBezier(x1: number, y1: number, x2: number, y2: number): (t: number) => number {
+  const curve = (a: number, b: number, s: number) => 3 * a * s * (1 - s) ** 2 + 3 * b * s ** 2 * (1 - s) + s ** 3;
+  return (t) => {
+    // Find the curve parameter whose x is t, then read its y
+    let low = 0;
+    let high = 1;
+    for (let i = 0; i < 20; i++) {
+      const mid = (low + high) / 2;
+      if (curve(x1, x2, mid) < t) low = mid;
+      else high = mid;
+    }
+    return curve(y1, y2, (low + high) / 2);
+  };
+}
+
+const DEFAULT_EASE = cubicBezier(0.4, 0, 0.2, 1);  // The DOM eyes' transition curve
+
+const EASINGS: Record<string, [number, number, number, number]> = {
+  linear: [0, 0, 1, 1],
+  ease: [0.25, 0.1, 0.25, 1],
+  'ease-in': [0.42, 0, 1, 1],
+  'ease-out': [0, 0, 0.58, 1],
+  'ease-in-out': [0.42, 0, 0.58, 1],
+};
+
+/**
+ * Parse a CSS timing function (keywords and cubic-bezier); anything else gets the default curve
+ */
+function parseEasing(easing: string): (t: number) => number {
+  const keyword = EASINGS[easing.trim()];
+  if (keyword) return cubicBezier(...keyword);
+
+  const match = easing.match(/cubic-bezier\(\s*([-\d.]+)\s*,\s*([-\d.]+)\s*,\s*([-\d.]+)\s*,\s*([-\d.]+)\s*\)/);
+  const points = match ? match.slice(1).map(Number) : [];
+  if (points.length === 4 && points.every(Number.isFinite)) {
+    return cubicBezier(points[0], points[1], points[2], points[3]);
+  }
+  return DEFAULT_EASE;
+}
+
+/**
+ * Signed distance from a point to a rounded rectangle centred on the origin (negative inside)
+ * Corners are top-left, top-right, bottom-right, bottom-left, with y pointing down
+ */
+function roundedRectDistance(
+  x: number,
+  y: number,
+  halfWidth: number,
+  halfHeight: number,
+  radius: EyeShape['radius']
+): number {
+  const corner = y < 0 ? (x < 0 ? radius[0] : radius[1]) : x < 0 ? radius[3] : radius[2];
+  const r = Math.min(corner, halfWidth, halfHeight);
+  const qx = Math.abs(x) - halfWidth + r;
+  const qy = Math.abs(y) - halfHeight + r;
+  return Math.min(Math.max(qx, qy), 0) + Math.hypot(Math.max(qx, 0), Math.max(qy, 0)) - r;
+}
+
+export class LedMatrixRenderer implements FaceRenderer {
+  readonly type = 'led' as const;
+  private face: HTMLElement | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private context: CanvasRenderingContext2D | null = null;
+  private shown: LedFace = NEUTRAL;  // As drawn right now
+  private from: LedFace = NEUTRAL;
+  private target: LedFace = NEUTRAL;
+  private tweenStart = 0;
+  private tweenMs = 0;
+  private ease: (t: number) => number = DEFAULT_EASE;
+  private blink = 0;        // 0 open - 1 closed
+  private blinkTarget = 0;
+  private gaze: Gaze = { x: 0, y: 0 };
+  private lastFrameTime = 0;
+  private frame: number | null = null;
+
+  mount(face: HTMLElement): void {
+    this.face = face;
+    this.canvas = document.createElement('canvas');
+    this.canvas.className = 'led-matrix';
+    this.canvas.width = SCREEN_WIDTH * PIXEL_RATIO;
+    this.canvas.height = SCREEN_HEIGHT * PIXEL_RATIO;
+    this.context = this.canvas.getContext('2d');
+
+    // Inside the eyes container, so the speaking animation scales it like the DOM eyes
+    const eyes = face.querySelector('.eyes-container') ?? face;
+    eyes.appendChild(this.canvas);
+    face.classList.add('led-renderer');
+    this.draw();
+  }
+
+  render(frame: FaceFrame): void {
+    const full = this.faceFor(frame);
+    const intensity = Math.max(0, Math.min(1, frame.intensity));
+
+    this.from = this.shown;
+    this.target = intensity < 1 ? blendFace(NEUTRAL, full, intensity) : full;
+    this.tweenStart = performance.now();
+    this.tweenMs = Math.max(0, frame.transitionMs);
+    this.ease = frame.easing ? parseEasing(frame.easing) : DEFAULT_EASE;
+    this.animate();
+  }
+
+  private faceFor(frame: FaceFrame): LedFace {
+    if (frame.custom) {
+      return { left: frame.custom.left, right: rightEye(frame.custom), color: hexColor(frame.custom.color) };
+    }
+    return LED_FACES[frame.expression] ?? NEUTRAL;
+  }
+
+  setBlinking(blinking: boolean): void {
+    this.blinkTarget = blinking ? 1 : 0;
+    this.animate();
+  }
+
+  setGaze(gaze: Gaze): void {
+    this.gaze = gaze;
+    if (this.frame === null) {
+      this.draw();
+    }
+  }
+
+  /**
+   * Run the frame loop until the tween and the blink have settled
+   */
+  private animate(): void {
+    if (this.frame === null) {
+      this.lastFrameTime = performance.now();
+      this.frame = requestAnimationFrame(this.tick);
+    }
+  }
+
+  private tick = (now: number): void => {
+    const elapsed = Math.max(0, now - this.lastFrameTime);
+    this.lastFrameTime = now;
+
+    const progress = this.tweenMs > 0 ? Math.min(1, (now - this.tweenStart) / this.tweenMs) : 1;
+    this.shown = progress < 1 ? blendFace(this.from, this.target, this.ease(progress)) : this.target;
+
+    const step = elapsed / BLINK_MS;
+    this.blink = this.blinkTarget > this.blink
+      ? Math.min(this.blinkTarget, this.blink + step)
+      : Math.max(this.blinkTarget, this.blink - step);
+
+    this.draw();
+
+    const settled = progress >= 1 && this.blink === this.blinkTarget;
+    this.frame = settled ? null : requestAnimationFrame(this.tick);
+  };
+
+  private draw(): void {
+    const context = this.context;
+    if (!context) return;
+
+    const shown = this.shown;
+    const blinkEye = (shape: EyeShape): EyeShape =>
+      this.blink > 0 ? { ...shape, height: lerp(shape.height, BLINK_HEIGHT, this.blink) } : shape;
+    const left = blinkEye(shown.left);
+    const right = blinkEye(shown.right);
+
+    // Lay the eyes out like the DOM face: side by side with a gap, centred on the screen, shifted by the gaze
+    const start = (SCREEN_WIDTH - (left.width + EYE_GAP + right.width)) / 2 + this.gaze.x * GAZE_X;
+    const middle = SCREEN_HEIGHT / 2 + this.gaze.y * GAZE_Y;
+    const centers = [
+      { shape: left, x: start + left.width / 2 },
+      { shape: right, x: start + left.width + EYE_GAP + right.width / 2 },
+    ];
+
+    const cell = SCREEN_WIDTH / COLUMNS;
+    const [red, green, blue] = shown.color.map(Math.round);
+    context.clearRect(0, 0, context.canvas.width, context.canvas.height);
+
+    for (let row = 0; row < ROWS; row++) {
+      for (let column = 0; column < COLUMNS; column++) {
+        const px = (column + 0.5) * cell;
+        const py = (row + 0.5) * (SCREEN_HEIGHT / ROWS);
+
+        // How much of this LED the eyes cover (soft edge one LED wide)
+        let coverage = 0;
+        for (const { shape, x } of centers) {
+          const angle = (-shape.rotate * Math.PI) / 180;
+          const dx = px - (x + shape.x);
+          const dy = py - (middle + shape.y);
+          const localX = dx * Math.cos(angle) - dy * Math.sin(angle);
+          const localY = dx * Math.sin(angle) + dy * Math.cos(angle);
+          const distance = roundedRectDistance(localX, localY, shape.width / 2, shape.height / 2, shape.radius);
+          coverage = Math.max(coverage, Math.min(1, Math.max(0, 0.5 - distance / cell)));
+        }
+
+        context.beginPath();
+        context.arc(px * PIXEL_RATIO, py * PIXEL_RATIO, cell * 0.38 * PIXEL_RATIO, 0, Math.PI * 2);
+        context.fillStyle = coverage > 0 ? `rgba(${red}, ${green}, ${blue}, ${0.15 + coverage * 0.85})` : OFF_COLOR;
+        context.fill();
+      }
+    }
+
+    // The glow is a CSS drop-shadow - blurring each LED on the canvas is too slow on phones
+    context.canvas.style.setProperty('--led-glow', `rgba(${red}, ${green}, ${blue}, 0.7)`);
+  }
+
+  destroy(): void {
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+    this.canvas?.remove();
+    this.face?.classList.remove('led-renderer');
+    this.canvas = null;
+    this.context = null;
+    this.face = null;
+  }
+}
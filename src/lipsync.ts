@@ -0,0 +1,170 @@
+/**
+ * Kuchi - Lip-Sync
+ * Loudness of Kuchi's voice (0-1) for the speaking animation: measured from the OpenAI TTS audio
+ * with an AnalyserNode, or pulsed by browser TTS word boundaries
+ */
+
+import { rmsLevel } from './vad';
+
+const FULL_SCALE_RMS = 0.25;   // Speech RMS that counts as full loudness
+const RELEASE = 0.85;          // Per-frame decay, so the level falls smoothly between syllables
+const WORD_PULSE = 0.8;        // Level a word boundary jumps to
+const SYLLABLE_MS = 180;       // Rhythm of the fallback pulses
+const NO_BOUNDARY_MS = 500;    // Voices that haven't sent a boundary by then never will
+
+type MeterMode = 'audio' | 'words';
+
+export class SpeechLevelMeter {
+  private onLevel: (level: number) => void;
+  private context: AudioContext | null = null;
+  private source: MediaElementAudioSourceNode | null = null;
+  private analyser: AnalyserNode | null = null;
+  private samples: Float32Array<ArrayBuffer> | null = null;
+  private mode: MeterMode | null = null;
+  private frame: number | null = null;
+  private level = 0;
+  private reported = 0;  // Last level passed to onLevel
+  private pulseLevel = 0;
+  private startedAt = 0;
+  private lastPulse = 0;
+  private boundarySeen = false;
+
+  constructor(onLevel: (level: number) => void) {
+    this.onLevel = onLevel;
+  }
+
+  /**
+   * Create the audio context - call from a user gesture, iOS keeps it suspended otherwise
+   */
+  unlock(): void {
+    const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+    if (!AudioContextClass) return;
+
+    try {
+      if (!this.context) {
+        this.context = new AudioContextClass();
+      }
+      if (this.context.state === 'suspended') {
+        this.context.resume().catch(() => {});
+      }
+    } catch (error) {
+      console.warn('👄 Lip-sync audio context unavailable:', error);
+    }
+  }
+
+  /**
+   * Route the audio element through the analyser (a browser allows this once per element)
+   * Returns false when the audio can't be measured, so it keeps playing untouched
+   */
+  private connect(audio: HTMLAudioElement): boolean {
+    if (!this.context) return false;
+    if (this.source) return this.source.mediaElement === audio;
+
+    // Once routed, the element only sounds through the context - a suspended one would mute it
+    if (this.context.state !== 'running') return false;
+
+    try {
+      this.source = this.context.createMediaElementSource(audio);
+      this.analyser = this.context.createAnalyser();
+      this.analyser.fftSize = 1024;
+      this.source.connect(this.analyser);
+      this.analyser.connect(this.context.destination);
+      this.samples = new Float32Array(this.analyser.fftSize);
+      console.log('👄 Lip-sync connected to the speech audio');
+      return true;
+    } catch (error) {
+      console.warn('👄 Could not measure speech audio:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Follow the loudness of an audio element that is about to play
+   * Falls back to a syllable rhythm when the audio can't be measured
+   */
+  startAudio(audio: HTMLAudioElement): void {
+    if (this.context?.state === 'suspended') {
+      this.context.resume().catch(() => {});
+    }
+    this.start(this.connect(audio) ? 'audio' : 'words');
+  }
+
+  /**
+   * Pulse on word boundaries (call pulse() from the utterance's boundary events)
+   */
+  startWords(): void {
+    this.start('words');
+  }
+
+  /**
+   * A word started
+   */
+  pulse(): void {
+    this.boundarySeen = true;
+    this.pulseLevel = WORD_PULSE;
+    this.lastPulse = performance.now();
+  }
+
+  private start(mode: MeterMode): void {
+    this.mode = mode;
+    this.startedAt = performance.now();
+    this.lastPulse = 0;
+    this.boundarySeen = false;
+    if (this.frame === null) {
+      this.frame = requestAnimationFrame(this.tick);
+    }
+  }
+
+  private tick = (): void => {
+    let target = 0;
+
+    if (this.mode === 'audio' && this.analyser && this.samples) {
+      this.analyser.getFloatTimeDomainData(this.samples);
+      target = Math.min(1, rmsLevel(this.samples) / FULL_SCALE_RMS);
+    } else if (this.mode === 'words') {
+      // Some voices never send boundary events - fake a syllable rhythm for them
+      const now = performance.now();
+      if (!this.boundarySeen && now - this.startedAt > NO_BOUNDARY_MS && now - this.lastPulse > SYLLABLE_MS) {
+        this.pulseLevel = 0.4 + Math.random() * 0.4;
+        this.lastPulse = now;
+      }
+      target = this.pulseLevel;
+      this.pulseLevel *= RELEASE;
+    }
+
+    // Rise at once, fall smoothly
+    const level = Math.max(target, this.level * RELEASE);
+    this.level = level < 0.01 ? 0 : level;
+    if (Math.abs(this.level - this.reported) > 0.005 || (this.level === 0 && this.reported !== 0)) {
+      this.reported = this.level;
+      this.onLevel(this.level);
+    }
+
+    this.frame = requestAnimationFrame(this.tick);
+  };
+
+  /**
+   * Speech ended or was cut off
+   */
+  stop(): void {
+    this.mode = null;
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+    this.pulseLevel = 0;
+    this.level = 0;
+    if (this.reported !== 0) {
+      this.reported = 0;
+      this.onLevel(0);
+    }
+  }
+
+  destroy(): void {
+    this.stop();
+    this.context?.close().catch(() => {});
+    this.context = null;
+    this.source = null;
+    this.analyser = null;
+  }
+}
@@ -6,10 +6,135 @@
 import { RobotFace, Expression } from './robot';
 import { VoiceManager } from './voice';
 import { KuchiAgent } from './openai';
+import {
+  ChatProviderConfig,
+  PROVIDER_PRESETS,
+  PROVIDER_STORAGE_KEY,
+  PROVIDER_API_KEY_STORAGE_KEY,
+  configFromPreset,
+  loadProviderConfig,
+  saveProviderConfig,
+  validateProviderConfig,
+} from './providers';
+import {
+  WebhookToolConfig,
+  WEBHOOK_TOOLS_STORAGE_KEY,
+  createWebhookTool,
+  loadWebhookTools,
+  migrateWebhookTools,
+  parseWebhookTools,
+  saveWebhookTools,
+} from './webhooks';
+import {
+  SearchConfig,
+  BRAVE_API_KEY_STORAGE_KEY,
+  SERPAPI_KEY_STORAGE_KEY,
+  SEARCH_API_KEY_STORAGE_KEYS,
+  SEARCH_PROVIDER_OPTIONS,
+  SEARCH_STORAGE_KEY,
+  createSearchProvider,
+  findSearchOption,
+  loadSearchConfig,
+  saveSearchConfig,
+  validateSearchConfig,
+} from './search';
+import {
+  STTConfig,
+  STT_PRESETS,
+  STT_STORAGE_KEY,
+  STT_API_KEY_STORAGE_KEY,
+  configFromSTTPreset,
+  findSTTPreset,
+  isSTTSupported,
+  loadSTTConfig,
+  saveSTTConfig,
+  validateSTTConfig,
+} from './stt';
+import {
+  LanguageCode,
+  LanguageSetting,
+  LANGUAGES,
+  LANGUAGE_STORAGE_KEY,
+  browserLanguage,
+  detectLanguage,
+  languageInstruction,
+  loadLanguageSetting,
+  saveLanguageSetting,
+} from './language';
 import { DragManager } from './interactions';
 import { MusicManager } from './music';
+import { ConversationStore, ConversationSession } from './history';
+import { TranscriptPanel } from './transcript';
+import { CUSTOM_EXPRESSIONS_STORAGE_KEY, loadCustomExpressions } from './expressions';
+import { ExpressionEditor } from './expressioneditor';
+import {
+  FACE_RENDERERS,
+  FACE_RENDERER_STORAGE_KEY,
+  FaceRendererType,
+  loadFaceRendererType,
+  saveFaceRendererType,
+} from './facerenderer';
+import {
+  CameraFrameSource,
+  PresenceMonitor,
+  VideoFrameSource,
+  createFaceDetector,
+  gazeAtFace,
+} from './presence';
+import { SourceCards } from './sources';
+import { VoiceActivityDetector } from './vad';
+import {
+  OPENAI_TTS_MODELS,
+  OpenAITTSModel,
+  TTSSettings,
+  TTS_SETTINGS_STORAGE_KEY,
+  loadTTSSettings,
+  saveTTSSettings,
+} from './tts';
+import {
+  WakeWordConfig,
+  WakeWordFilter,
+  WAKE_WORD_STORAGE_KEY,
+  WAKE_WORD_TIMEOUT_MS,
+  DEFAULT_WAKE_WORD_CONFIG,
+  loadWakeWordConfig,
+  saveWakeWordConfig,
+} from './wakeword';
+import {
+  Persona,
+  PERSONA_STORAGE_KEY,
+  CUSTOM_PERSONAS_STORAGE_KEY,
+  loadPersonas,
+  findPersona,
+} from './personas';
+import {
+  ImportMode,
+  UserMemory,
+  createBackup,
+  createEmptyMemory,
+  loadStoredMemory,
+  mergeMemory,
+  parseBackup,
+  parseMemory,
+  saveStoredMemory,
+} from './memory';
+import {
+  CONTEXT_BUDGET_STORAGE_KEY,
+  MAX_CONTEXT_BUDGET,
+  MIN_CONTEXT_BUDGET,
+  getContextBudget,
+  loadContextBudget,
+  saveContextBudget,
+  validateContextBudget,
+} from './context';
 import './styles.css';
 
+// Spoken when the play_music tool is the whole reply
+const MUSIC_CONFIRMATION = 'Sure! Let me play some music for you.';
+
+// Fixed lines whose OpenAI speech is generated ahead of time and cached
+const CANNED_PHRASES = [MUSIC_CONFIRMATION];
+
 type AppState = 
   | 'idle'
   | 'listening'
@@ -23,60 +148,206 @@ class KuchiApp {
   private dragManager: DragManager;
   private musicManager: MusicManager;
   private agent: KuchiAgent | null = null;
+  private conversationStore: ConversationStore;
+  private transcriptPanel: TranscriptPanel;
+  private expressionEditor: ExpressionEditor;
+  private sourceCards: SourceCards;
+  private wakeWordConfig: WakeWordConfig;
+  private wakeWord: WakeWordFilter;
+  private handsFreeActive = false; // Continuous recognition is waiting for the wake word
+  private awakeTimer: number | null = null;
+  private languageSelect: HTMLSelectElement;
+  private languageSetting: LanguageSetting;
+  private currentLanguage: LanguageCode; // Auto mode: language of the latest turn
+  private sttProviderSelect: HTMLSelectElement;
+  private sttEndpointInput: HTMLInputElement;
+  private sttApiKeyInput: HTMLInputElement;
+  private sttModelInput: HTMLInputElement;
+  private listeningModeSelect: HTMLSelectElement;
+  private wakePhrasesInput: HTMLInputElement;
+  private followUpInput: HTMLInputElement;
+  private bargeInCheckbox: HTMLInputElement;
+  private ttsModelSelect: HTMLSelectElement;
+  private ttsSpeedInput: HTMLInputElement;
+  private ttsInstructionsInput: HTMLInputElement;
+  private browserRateInput: HTMLInputElement;
+  private browserPitchInput: HTMLInputElement;
+  private expressiveVoiceCheckbox: HTMLInputElement;
+  private nativeAccentCheckbox: HTMLInputElement;
+  private vad: VoiceActivityDetector;
+  private bargeInEnabled: boolean;
+  private cameraPresenceCheckbox: HTMLInputElement;
+  private presence: PresenceMonitor | null = null;
+  private currentTurn = 0;
+  private interruptedTurn = -1;   // Turn the user cut off while it was spoken
+  private currentSession: ConversationSession;
+  private personas: Persona[];
+  private currentPersona: Persona;
 
   // DOM Elements
   private micBtn: HTMLButtonElement;
   private statusText: HTMLElement;
   private settingsBtn: HTMLButtonElement;
+  private historyBtn: HTMLButtonElement;
   private settingsModal: HTMLElement;
   private apiKeyInput: HTMLInputElement;
-  private serpApiKeyInput: HTMLInputElement;
+  private chatProviderSelect: HTMLSelectElement;
+  private providerBaseUrlInput: HTMLInputElement;
+  private providerModelInput: HTMLInputElement;
+  private contextBudgetInput: HTMLInputElement;
+  private providerApiKeyInput: HTMLInputElement;
+  private providerToolsCheckbox: HTMLInputElement;
+  private providerStreamingCheckbox: HTMLInputElement;
+  private providerStructuredCheckbox: HTMLInputElement;
+  private searchProviderSelect: HTMLSelectElement;
+  private searchApiKeyInput: HTMLInputElement;
+  private searchEndpointInput: HTMLInputElement;
+  private searchProxyInput: HTMLInputElement;
   private voiceSelect: HTMLSelectElement;
   private openaiVoiceSelect: HTMLSelectElement;
   private ttsProviderSelect: HTMLSelectElement;
+  private personaSelect: HTMLSelectElement;
+  private personaDescription: HTMLElement;
   private userNameInput: HTMLInputElement;
   private memoryNotesInput: HTMLTextAreaElement;
+  private webhookToolsInput: HTMLTextAreaElement;
   private saveBtn: HTMLButtonElement;
   private cancelBtn: HTMLButtonElement;
+  private faceRendererSelect: HTMLSelectElement;
+  private expressionEditorBtn: HTMLButtonElement;
+  private exportBtn: HTMLButtonElement;
+  private importBtn: HTMLButtonElement;
+  private importFileInput: HTMLInputElement;
+  private importModeSelect: HTMLSelectElement;
 
   // State
   private appState: AppState = 'idle';
   private speakingExpression: Expression = 'happy';
+  private musicRequested = false; // Set by the play_music tool, handled after the reply
+  private webhookToolNames: string[] = []; // Webhook tools currently registered on the agent
   private readonly API_KEY_STORAGE = 'kuchi_api_key';
-  private readonly SERP_API_KEY_STORAGE = 'kuchi_serp_api_key';
   private readonly VOICE_STORAGE = 'kuchi_selected_voice';
   private readonly OPENAI_VOICE_STORAGE = 'kuchi_openai_voice';
   private readonly TTS_PROVIDER_STORAGE = 'kuchi_tts_provider';
+  private readonly BARGE_IN_STORAGE = 'kuchi_barge_in';
+  private readonly CAMERA_PRESENCE_STORAGE = 'kuchi_camera_presence';
+
+  // Settings included in backups (secrets only with the user's consent)
+  private readonly SETTINGS_KEYS = [
+    this.API_KEY_STORAGE,
+    SEARCH_STORAGE_KEY,
+    SERPAPI_KEY_STORAGE_KEY,
+    BRAVE_API_KEY_STORAGE_KEY,
+    this.VOICE_STORAGE,
+    this.OPENAI_VOICE_STORAGE,
+    this.TTS_PROVIDER_STORAGE,
+    TTS_SETTINGS_STORAGE_KEY,
+    PERSONA_STORAGE_KEY,
+    CUSTOM_PERSONAS_STORAGE_KEY,
+    PROVIDER_STORAGE_KEY,
+    PROVIDER_API_KEY_STORAGE_KEY,
+    CONTEXT_BUDGET_STORAGE_KEY,
+    WEBHOOK_TOOLS_STORAGE_KEY,
+    CUSTOM_EXPRESSIONS_STORAGE_KEY,
+    FACE_RENDERER_STORAGE_KEY,
+    LANGUAGE_STORAGE_KEY,
+    STT_STORAGE_KEY,
+    STT_API_KEY_STORAGE_KEY,
+    WAKE_WORD_STORAGE_KEY,
+    this.BARGE_IN_STORAGE,
+    this.CAMERA_PRESENCE_STORAGE,
+  ];
+  private readonly SECRET_SETTINGS_KEYS = [
+    this.API_KEY_STORAGE,
+    SERPAPI_KEY_STORAGE_KEY,
+    BRAVE_API_KEY_STORAGE_KEY,
+    PROVIDER_API_KEY_STORAGE_KEY,
+    STT_API_KEY_STORAGE_KEY,
+    WEBHOOK_TOOLS_STORAGE_KEY, // Headers often carry auth tokens
+  ];
+  // Settings the agent is created from - a change means a new agent
+  private readonly AGENT_SETTINGS_KEYS = [
+    this.API_KEY_STORAGE,
+    SEARCH_STORAGE_KEY,
+    SERPAPI_KEY_STORAGE_KEY,
+    BRAVE_API_KEY_STORAGE_KEY,
+    PROVIDER_STORAGE_KEY,
+    PROVIDER_API_KEY_STORAGE_KEY,
+    CONTEXT_BUDGET_STORAGE_KEY,
+  ];
 
   constructor() {
     console.log('🤖 Initializing Kuchi (Vector Style)...');
 
     // Initialize robot face
     this.robotFace = new RobotFace('robotFace');
+    this.robotFace.setCustomExpressions(loadCustomExpressions());
+    this.robotFace.setRenderer(loadFaceRendererType());
 
     // Get DOM elements
     this.micBtn = document.getElementById('micBtn') as HTMLButtonElement;
     this.statusText = document.getElementById('statusText') as HTMLElement;
     this.settingsBtn = document.getElementById('settingsBtn') as HTMLButtonElement;
+    this.historyBtn = document.getElementById('historyBtn') as HTMLButtonElement;
     this.settingsModal = document.getElementById('settingsModal') as HTMLElement;
     this.apiKeyInput = document.getElementById('apiKeyInput') as HTMLInputElement;
-    this.serpApiKeyInput = document.getElementById('serpApiKeyInput') as HTMLInputElement;
+    this.chatProviderSelect = document.getElementById('chatProviderSelect') as HTMLSelectElement;
+    this.providerBaseUrlInput = document.getElementById('providerBaseUrlInput') as HTMLInputElement;
+    this.providerModelInput = document.getElementById('providerModelInput') as HTMLInputElement;
+    this.contextBudgetInput = document.getElementById('contextBudgetInput') as HTMLInputElement;
+    this.providerApiKeyInput = document.getElementById('providerApiKeyInput') as HTMLInputElement;
+    this.providerToolsCheckbox = document.getElementById('providerToolsCheckbox') as HTMLInputElement;
+    this.providerStreamingCheckbox = document.getElementById('providerStreamingCheckbox') as HTMLInputElement;
+    this.providerStructuredCheckbox = document.getElementById('providerStructuredCheckbox') as HTMLInputElement;
+    this.searchProviderSelect = document.getElementById('searchProviderSelect') as HTMLSelectElement;
+    this.searchApiKeyInput = document.getElementById('searchApiKeyInput') as HTMLInputElement;
+    this.searchEndpointInput = document.getElementById('searchEndpointInput') as HTMLInputElement;
+    this.searchProxyInput = document.getElementById('searchProxyInput') as HTMLInputElement;
     this.voiceSelect = document.getElementById('voiceSelect') as HTMLSelectElement;
     this.openaiVoiceSelect = document.getElementById('openaiVoiceSelect') as HTMLSelectElement;
     this.ttsProviderSelect = document.getElementById('ttsProviderSelect') as HTMLSelectElement;
+    this.personaSelect = document.getElementById('personaSelect') as HTMLSelectElement;
+    this.personaDescription = document.getElementById('personaDescription') as HTMLElement;
     this.userNameInput = document.getElementById('userNameInput') as HTMLInputElement;
     this.memoryNotesInput = document.getElementById('memoryNotesInput') as HTMLTextAreaElement;
+    this.webhookToolsInput = document.getElementById('webhookToolsInput') as HTMLTextAreaElement;
+    this.languageSelect = document.getElementById('languageSelect') as HTMLSelectElement;
+    this.sttProviderSelect = document.getElementById('sttProviderSelect') as HTMLSelectElement;
+    this.sttEndpointInput = document.getElementById('sttEndpointInput') as HTMLInputElement;
+    this.sttApiKeyInput = document.getElementById('sttApiKeyInput') as HTMLInputElement;
+    this.sttModelInput = document.getElementById('sttModelInput') as HTMLInputElement;
+    this.listeningModeSelect = document.getElementById('listeningModeSelect') as HTMLSelectElement;
+    this.wakePhrasesInput = document.getElementById('wakePhrasesInput') as HTMLInputElement;
+    this.followUpInput = document.getElementById('followUpInput') as HTMLInputElement;
+    this.bargeInCheckbox = document.getElementById('bargeInCheckbox') as HTMLInputElement;
+    this.ttsModelSelect = document.getElementById('ttsModelSelect') as HTMLSelectElement;
+    this.ttsSpeedInput = document.getElementById('ttsSpeedInput') as HTMLInputElement;
+    this.ttsInstructionsInput = document.getElementById('ttsInstructionsInput') as HTMLInputElement;
+    this.browserRateInput = document.getElementById('browserRateInput') as HTMLInputElement;
+    this.browserPitchInput = document.getElementById('browserPitchInput') as HTMLInputElement;
+    this.expressiveVoiceCheckbox = document.getElementById('expressiveVoiceCheckbox') as HTMLInputElement;
+    this.nativeAccentCheckbox = document.getElementById('nativeAccentCheckbox') as HTMLInputElement;
     this.saveBtn = document.getElementById('saveBtn') as HTMLButtonElement;
     this.cancelBtn = document.getElementById('cancelBtn') as HTMLButtonElement;
+    this.faceRendererSelect = document.getElementById('faceRendererSelect') as HTMLSelectElement;
+    this.cameraPresenceCheckbox = document.getElementById('cameraPresenceCheckbox') as HTMLInputElement;
+    this.expressionEditorBtn = document.getElementById('expressionEditorBtn') as HTMLButtonElement;
+    this.exportBtn = document.getElementById('exportBtn') as HTMLButtonElement;
+    this.importBtn = document.getElementById('importBtn') as HTMLButtonElement;
+    this.importFileInput = document.getElementById('importFileInput') as HTMLInputElement;
+    this.importModeSelect = document.getElementById('importModeSelect') as HTMLSelectElement;
 
     // Initialize voice manager
     this.voiceManager = new VoiceManager(
       {
         onListeningStart: () => this.handleListeningStart(),
         onListeningEnd: () => this.handleListeningEnd(),
-        onSpeechResult: (text) => this.handleSpeechResult(text),
+        onSpeechResult: (text) => this.handleRecognizedSpeech(text),
+        onInterimResult: (text) => this.handleInterimResult(text),
+        onTranscribing: () => this.handleTranscribing(),
         onSpeakingStart: () => this.handleSpeakingStart(),
         onSpeakingEnd: () => this.handleSpeakingEnd(),
+        onSpeechLevel: (level) => this.robotFace.setSpeechLevel(level),
         onError: (error) => this.handleError(error),
       },
       false
@@ -96,24 +367,68 @@ class KuchiApp {
       // When music ends, return to neutral state
       if (this.appState !== 'listening' && this.appState !== 'speaking') {
         this.robotFace.setExpression('neutral');
-        this.updateStatus('Tap to speak');
+        this.updateStatus(this.idleStatus());
       }
     });
 
+    // Conversation sessions persist in IndexedDB
+    this.conversationStore = new ConversationStore();
+    this.currentSession = this.conversationStore.createSession();
+    this.transcriptPanel = new TranscriptPanel('transcriptModal', this.conversationStore, {
+      onResume: (session) => this.resumeSession(session),
+      onDelete: (session) => {
+        if (session.id === this.currentSession.id) {
+          this.startNewSession();
+        }
+      },
+      onNewSession: () => this.startNewSession(),
+    });
+    this.expressionEditor = new ExpressionEditor('expressionModal', {
+      onChange: (expressions) => this.robotFace.setCustomExpressions(expressions),
+    });
+    this.sourceCards = new SourceCards('sourceCards');
+
+    // Hands-free mode starts on the first mic tap (browsers need a gesture for the mic)
+    this.wakeWordConfig = loadWakeWordConfig();
+    this.wakeWord = new WakeWordFilter(this.wakeWordConfig);
+
+    // Barge-in: speaking while Kuchi talks interrupts it (on unless turned off)
+    this.bargeInEnabled = localStorage.getItem(this.BARGE_IN_STORAGE) !== 'false';
+    this.vad = new VoiceActivityDetector({
+      onSpeechStart: () => this.interruptSpeaking(),
+    });
+
+    // Auto mode starts in the browser's language and follows each turn
+    this.languageSetting = loadLanguageSetting();
+    this.currentLanguage = this.languageSetting === 'auto' ? browserLanguage() : this.languageSetting;
+
     // Load saved voice preference
     const savedVoice = localStorage.getItem(this.VOICE_STORAGE);
     if (savedVoice) {
       this.voiceManager.setPreferredVoice(savedVoice);
     }
 
+    // Load personas (the persona's voice applies to TTS below)
+    this.personas = loadPersonas();
+    this.currentPersona = findPersona(this.personas, localStorage.getItem(PERSONA_STORAGE_KEY));
+    this.populatePersonaList();
+    this.populateProviderList();
+    this.populateSearchProviderList();
+    this.populateSTTProviderList();
+    this.populateTTSModelList();
+    this.populateFaceRendererList();
+
     // Load and configure TTS provider
     this.configureTTSProvider();
+    this.configureSpeechRecognition();
+    this.populateLanguageList();
 
     // Initialize agent
     this.initializeAgent();
     this.setupEventListeners();
     this.checkBrowserSupport();
     this.loadVoices();
+    this.configurePresence();
 
     this.micBtn.style.display = 'flex';
     console.log('✅ Kuchi initialized (Vector Style)');
@@ -123,17 +438,319 @@ class KuchiApp {
     const apiKey = localStorage.getItem(this.API_KEY_STORAGE);
     const savedProvider = localStorage.getItem(this.TTS_PROVIDER_STORAGE) as 'openai' | 'browser' | null;
     const savedOpenAIVoice = localStorage.getItem(this.OPENAI_VOICE_STORAGE) as any;
+    const settings = loadTTSSettings();
+    this.voiceManager.setTTSSettings(settings);
 
     // Enable OpenAI TTS if API key exists and provider is set to OpenAI
+    // The persona's voice wins over the voice picked in settings, its speed scales the set speed
     if (apiKey && savedProvider === 'openai') {
-      this.voiceManager.enableOpenAITTS(apiKey, savedOpenAIVoice || 'alloy', 1.0);
-      console.log('🔊 OpenAI TTS enabled with voice:', savedOpenAIVoice || 'alloy');
+      const voice = this.currentPersona.voice?.openai || savedOpenAIVoice || 'alloy';
+      this.voiceManager.enableOpenAITTS(apiKey, voice, settings.speed * (this.currentPersona.voice?.speed ?? 1.0));
+      console.log('🔊 OpenAI TTS enabled with voice:', voice);
+      // Music replies are always spoken with the excited face
+      this.voiceManager.pregenerateSpeech(CANNED_PHRASES, 'excited');
     } else {
       this.voiceManager.useBrowserTTS();
       console.log('🔊 Using browser TTS');
     }
   }
 
+  private configureSpeechRecognition(): void {
+    const apiKey = localStorage.getItem(this.API_KEY_STORAGE) || '';
+    this.voiceManager.setSTTConfig(loadSTTConfig(apiKey));
+    this.voiceManager.setLanguage(this.currentLanguage, this.languageSetting === 'auto');
+  }
+
+  /**
+   * Use a new language setting for listening, speaking and replies
+   */
+  private applyLanguageSetting(setting: LanguageSetting): void {
+    this.languageSetting = setting;
+    if (setting !== 'auto') {
+      this.currentLanguage = setting;
+    }
+    this.voiceManager.setLanguage(this.currentLanguage, setting === 'auto');
+    this.agent?.setLanguageInstruction(languageInstruction(setting, null));
+  }
+
+  private populateLanguageList(): void {
+    this.languageSelect.innerHTML = '';
+    const auto = document.createElement('option');
+    auto.value = 'auto';
+    auto.textContent = 'Auto-detect each turn';
+    this.languageSelect.appendChild(auto);
+    LANGUAGES.forEach((language) => {
+      const option = document.createElement('option');
+      option.value = language.code;
+      option.textContent = language.code === 'en' ? language.name : `${language.name} (${language.nativeName})`;
+      this.languageSelect.appendChild(option);
+    });
+  }
+
+  private populatePersonaList(): void {
+    this.personaSelect.innerHTML = '';
+    this.personas.forEach((persona) => {
+      const option = document.createElement('option');
+      option.value = persona.id;
+      option.textContent = persona.name;
+      this.personaSelect.appendChild(option);
+    });
+    this.personaSelect.value = this.currentPersona.id;
+    this.updatePersonaDescription();
+  }
+
+  private populateProviderList(): void {
+    this.chatProviderSelect.innerHTML = '';
+    PROVIDER_PRESETS.forEach((preset) => {
+      const option = document.createElement('option');
+      option.value = preset.id;
+      option.textContent = preset.name;
+      this.chatProviderSelect.appendChild(option);
+    });
+  }
+
+  private populateSearchProviderList(): void {
+    this.searchProviderSelect.innerHTML = '';
+    SEARCH_PROVIDER_OPTIONS.forEach((option) => {
+      const element = document.createElement('option');
+      element.value = option.id;
+      element.textContent = option.name;
+      this.searchProviderSelect.appendChild(element);
+    });
+  }
+
+  private populateSTTProviderList(): void {
+    this.sttProviderSelect.innerHTML = '';
+    STT_PRESETS.forEach((preset) => {
+      const option = document.createElement('option');
+      option.value = preset.id;
+      option.textContent = preset.name;
+      this.sttProviderSelect.appendChild(option);
+    });
+  }
+
+  private populateTTSModelList(): void {
+    this.ttsModelSelect.innerHTML = '';
+    OPENAI_TTS_MODELS.forEach((model) => {
+      const option = document.createElement('option');
+      option.value = model.id;
+      option.textContent = model.name;
+      this.ttsModelSelect.appendChild(option);
+    });
+  }
+
+  private populateFaceRendererList(): void {
+    this.faceRendererSelect.innerHTML = '';
+    FACE_RENDERERS.forEach((renderer) => {
+      const option = document.createElement('option');
+      option.value = renderer.id;
+      option.textContent = renderer.name;
+      this.faceRendererSelect.appendChild(option);
+    });
+  }
+
+  /**
+   * Camera presence: watch for faces while the setting is on, release the camera when it's off
+   * In development a recorded video can stand in for the camera (?presenceVideo=/clip.mp4)
+   */
+  private configurePresence(): void {
+    const enabled = localStorage.getItem(this.CAMERA_PRESENCE_STORAGE) === 'true';
+    if (!enabled) {
+      this.presence?.stop();
+      this.presence = null;
+      return;
+    }
+    if (this.presence) return;
+
+    const videoUrl = import.meta.env.DEV ? new URLSearchParams(location.search).get('presenceVideo') : null;
+    const source = videoUrl ? new VideoFrameSource(videoUrl) : new CameraFrameSource();
+    const presence = new PresenceMonitor(source, createFaceDetector(), {
+      onPresenceChange: (present) => {
+        // Nobody there - doze off instead of waiting for the inactivity timeout
+        if (!present && this.appState === 'idle' && !this.musicManager.isPlaying()) {
+          this.robotFace.doze();
+        }
+      },
+      onFace: (face) => {
+        // Someone in view counts as activity: it wakes Kuchi and keeps it awake
+        this.robotFace.resetActivity();
+        this.robotFace.lookAt(gazeAtFace(face), 1500);
+      },
+    });
+    this.presence = presence;
+
+    presence.start().catch((error) => {
+      console.warn('📷 Camera presence unavailable:', error);
+      if (this.presence === presence) {
+        this.presence = null;
+      }
+      this.updateStatus('⚠️ Camera not available');
+    });
+  }
+
+  /**
+   * Fill the voice output fields from the TTS settings
+   */
+  private showTTSSettings(settings: TTSSettings): void {
+    this.ttsModelSelect.value = settings.model;
+    this.ttsSpeedInput.value = String(settings.speed);
+    this.ttsInstructionsInput.value = settings.instructions;
+    this.browserRateInput.value = String(settings.browserRate);
+    this.browserPitchInput.value = String(settings.browserPitch);
+    this.expressiveVoiceCheckbox.checked = settings.expressive;
+    this.nativeAccentCheckbox.checked = settings.nativeAccent;
+  }
+
+  /**
+   * Read the voice output fields (empty or invalid numbers fall back to the saved values)
+   */
+  private readTTSSettings(): TTSSettings {
+    const saved = loadTTSSettings();
+    const readNumber = (input: HTMLInputElement, min: number, max: number, fallback: number) => {
+      const value = parseFloat(input.value);
+      return Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback;
+    };
+
+    return {
+      model: this.ttsModelSelect.value as OpenAITTSModel,
+      speed: readNumber(this.ttsSpeedInput, 0.25, 4.0, saved.speed),
+      instructions: this.ttsInstructionsInput.value.trim(),
+      browserRate: readNumber(this.browserRateInput, 0.5, 2.0, saved.browserRate),
+      browserPitch: readNumber(this.browserPitchInput, 0, 2.0, saved.browserPitch),
+      expressive: this.expressiveVoiceCheckbox.checked,
+      nativeAccent: this.nativeAccentCheckbox.checked,
+    };
+  }
+
+  /**
+   * Fill the speech recognition fields from a config
+   */
+  private showSTTConfig(config: STTConfig): void {
+    this.sttProviderSelect.value = config.provider;
+    this.sttEndpointInput.value = config.endpoint;
+    this.sttApiKeyInput.value = config.provider === 'whisper' ? config.apiKey : '';
+    this.sttModelInput.value = config.model;
+
+    // OpenAI has a fixed URL and uses the OpenAI API key field
+    const show = (input: HTMLElement, visible: boolean) => {
+      (input.closest('.form-group') as HTMLElement).style.display = visible ? 'block' : 'none';
+    };
+    show(this.sttEndpointInput, config.provider === 'whisper');
+    show(this.sttModelInput, config.provider !== 'browser');
+  }
+
+  private readSTTConfig(openaiApiKey: string): STTConfig {
+    const preset = findSTTPreset(this.sttProviderSelect.value);
+    if (preset.id === 'browser') {
+      return configFromSTTPreset('browser');
+    }
+    return {
+      provider: preset.id,
+      endpoint: preset.id === 'openai' ? preset.endpoint : this.sttEndpointInput.value.trim(),
+      model: this.sttModelInput.value.trim() || preset.model,
+      apiKey: preset.id === 'openai' ? openaiApiKey : this.sttApiKeyInput.value.trim(),
+    };
+  }
+
+  /**
+   * Fill the search fields from a config, showing only the ones the provider uses
+   */
+  private showSearchConfig(config: SearchConfig): void {
+    const option = findSearchOption(config.provider);
+    this.searchProviderSelect.value = option.id;
+    this.searchApiKeyInput.value = config.apiKey;
+    this.searchEndpointInput.value = config.endpoint;
+    this.searchProxyInput.value = config.proxyUrl;
+
+    const show = (input: HTMLElement, visible: boolean) => {
+      (input.closest('.form-group') as HTMLElement).style.display = visible ? 'block' : 'none';
+    };
+    show(this.searchApiKeyInput, option.needsKey);
+    show(this.searchEndpointInput, option.needsEndpoint);
+    // SearXNG is normally self-hosted with CORS enabled, but reading result pages still needs the proxy
+    show(this.searchProxyInput, option.id !== 'none');
+  }
+
+  private readSearchConfig(): SearchConfig {
+    const option = findSearchOption(this.searchProviderSelect.value);
+    return {
+      provider: option.id,
+      apiKey: option.needsKey ? this.searchApiKeyInput.value.trim() : '',
+      endpoint: option.needsEndpoint ? this.searchEndpointInput.value.trim() : '',
+      proxyUrl: this.searchProxyInput.value.trim(),
+    };
+  }
+
+  /**
+   * Fill the provider fields from a config
+   */
+  private showProviderConfig(config: ChatProviderConfig): void {
+    this.chatProviderSelect.value = config.preset;
+    this.providerBaseUrlInput.value = config.baseURL;
+    this.providerModelInput.value = config.model;
+    this.updateContextBudgetPlaceholder();
+    this.providerApiKeyInput.value = config.preset === 'openai' ? '' : config.apiKey;
+    this.providerToolsCheckbox.checked = config.capabilities.tools;
+    this.providerStreamingCheckbox.checked = config.capabilities.streaming;
+    this.providerStructuredCheckbox.checked = config.capabilities.structuredOutput;
+
+    // OpenAI uses the OpenAI API key field
+    const providerKeyGroup = this.providerApiKeyInput.closest('.form-group') as HTMLElement;
+    providerKeyGroup.style.display = config.preset === 'openai' ? 'none' : 'block';
+  }
+
+  /**
+   * Read the provider fields into a config
+   */
+  private readProviderConfig(openaiApiKey: string): ChatProviderConfig {
+    const preset = this.chatProviderSelect.value;
+    return {
+      preset,
+      baseURL: this.providerBaseUrlInput.value.trim().replace(/\/+$/, ''),
+      model: this.providerModelInput.value.trim(),
+      apiKey: preset === 'openai' ? openaiApiKey : this.providerApiKeyInput.value.trim(),
+      capabilities: {
+        tools: this.providerToolsCheckbox.checked,
+        streaming: this.providerStreamingCheckbox.checked,
+        structuredOutput: this.providerStructuredCheckbox.checked,
+      },
+    };
+  }
+
+  /**
+   * An empty budget field means the model's default - show it as the placeholder
+   */
+  private updateContextBudgetPlaceholder(): void {
+    const model = this.providerModelInput.value.trim() || this.providerModelInput.placeholder;
+    this.contextBudgetInput.placeholder = `${getContextBudget(model)} (default for this model)`;
+  }
+
+  /**
+   * Read the context budget field: null for the model's default, undefined if it's invalid
+   */
+  private readContextBudget(): number | null | undefined {
+    const value = this.contextBudgetInput.value.trim();
+    if (!value) return null;
+    return validateContextBudget(Number(value)) ?? undefined;
+  }
+
+  private updatePersonaDescription(): void {
+    const persona = findPersona(this.personas, this.personaSelect.value);
+    this.personaDescription.textContent =
+      `${persona.description}. You can also ask Kuchi to switch, e.g. "be my philosophy tutor"`;
+  }
+
+  /**
+   * Make a persona active: agent prompt, voice, and saved choice
+   */
+  private applyPersona(persona: Persona): void {
+    this.currentPersona = persona;
+    localStorage.setItem(PERSONA_STORAGE_KEY, persona.id);
+    this.agent?.setPersona(persona);
+    this.configureTTSProvider();
+    console.log(`🎭 Persona applied: ${persona.name}`);
+  }
+
   private loadVoices(): void {
     // Force speech synthesis to wake up and load voices
     if (window.speechSynthesis.getVoices().length === 0) {
@@ -235,8 +852,18 @@ class KuchiApp {
   private setupEventListeners(): void {
     this.micBtn.addEventListener('click', () => this.handleMicClick());
     this.settingsBtn.addEventListener('click', () => this.openSettings());
+    this.historyBtn.addEventListener('click', () => this.transcriptPanel.open(this.currentSession.id));
     this.saveBtn.addEventListener('click', () => this.saveSettings());
     this.cancelBtn.addEventListener('click', () => this.closeSettings());
+    this.expressionEditorBtn.addEventListener('click', () => this.expressionEditor.open());
+    this.exportBtn.addEventListener('click', () => this.exportBackup());
+    this.importBtn.addEventListener('click', () => this.importFileInput.click());
+    this.importFileInput.addEventListener('change', () => {
+      const file = this.importFileInput.files?.[0];
+      if (file) {
+        this.importBackup(file);
+      }
+    });
 
     this.settingsModal.addEventListener('click', (e) => {
       if (e.target === this.settingsModal) {
@@ -246,16 +873,43 @@ class KuchiApp {
 
     this.apiKeyInput.addEventListener('keypress', (e) => {
       if (e.key === 'Enter') {
-        this.serpApiKeyInput.focus();
+        this.searchProviderSelect.focus();
       }
     });
 
-    this.serpApiKeyInput.addEventListener('keypress', (e) => {
+    this.searchApiKeyInput.addEventListener('keypress', (e) => {
       if (e.key === 'Enter') {
         this.saveSettings();
       }
     });
 
+    this.personaSelect.addEventListener('change', () => this.updatePersonaDescription());
+
+    // Picking a preset fills in its defaults
+    this.chatProviderSelect.addEventListener('change', () => {
+      this.showProviderConfig(configFromPreset(this.chatProviderSelect.value, this.providerApiKeyInput.value.trim()));
+    });
+    this.providerModelInput.addEventListener('input', () => this.updateContextBudgetPlaceholder());
+
+    // Switching search provider shows its saved key and default endpoint
+    this.searchProviderSelect.addEventListener('change', () => {
+      const option = findSearchOption(this.searchProviderSelect.value);
+      const keyStorage = SEARCH_API_KEY_STORAGE_KEYS[option.id];
+      this.showSearchConfig({
+        provider: option.id,
+        apiKey: (keyStorage && localStorage.getItem(keyStorage)) || '',
+        endpoint: option.defaultEndpoint,
+        proxyUrl: this.searchProxyInput.value.trim(),
+      });
+    });
+
+    this.sttProviderSelect.addEventListener('change', () => {
+      const key = localStorage.getItem(STT_API_KEY_STORAGE_KEY) || '';
+      this.showSTTConfig(configFromSTTPreset(this.sttProviderSelect.value, key));
+    });
+
+    this.listeningModeSelect.addEventListener('change', () => this.updateWakeWordFields());
+
     // TTS provider change handler
     this.ttsProviderSelect.addEventListener('change', () => {
       this.updateVoiceSelectors();
@@ -287,13 +941,15 @@ class KuchiApp {
   }
 
   private initializeAgent(): void {
-    const apiKey = localStorage.getItem(this.API_KEY_STORAGE);
-    const serpApiKey = localStorage.getItem(this.SERP_API_KEY_STORAGE);
+    const apiKey = localStorage.getItem(this.API_KEY_STORAGE) || '';
+    migrateWebhookTools(!!apiKey);
+    const provider = loadProviderConfig(apiKey);
+    const search = loadSearchConfig();
 
-    if (apiKey && serpApiKey) {
+    if (!validateProviderConfig(provider) && !validateSearchConfig(search)) {
       try {
-        this.agent = new KuchiAgent(apiKey, serpApiKey);
-        this.updateStatus('Tap to speak');
+        this.agent = this.createAgent(provider, search);
+        this.updateStatus(this.idleStatus());
         this.robotFace.setExpression('neutral');
       } catch (error) {
         console.error('Failed to initialize agent:', error);
@@ -306,10 +962,101 @@ class KuchiApp {
     }
   }
 
+  /**
+   * Create the agent and register the tools that need app features
+   */
+  private createAgent(provider: ChatProviderConfig, search: SearchConfig): KuchiAgent {
+    const agent = new KuchiAgent(provider, createSearchProvider(search), {
+      contextBudget: loadContextBudget() ?? undefined,
+      persona: this.currentPersona,
+      languageInstruction: languageInstruction(this.languageSetting, null),
+    });
+
+    agent.registerTool({
+      name: 'play_music',
+      description:
+        'Play background music when the user asks to play music, play a song, or hear music. You only have one music so dont ask for any choice of music ' +
+        'Use this when user requests music playback.',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: [],
+      },
+      resultType: 'reply',
+      handler: () => {
+        console.log('🎵 Music playback requested');
+        this.musicRequested = true;
+        return { output: MUSIC_CONFIRMATION, historyText: 'Music is now playing in the background.' };
+      },
+    });
+
+    this.registerPersonaTool(agent);
+
+    this.webhookToolNames = [];
+    this.registerWebhookTools(agent);
+
+    return agent;
+  }
+
+  /**
+   * Register the switch_persona tool for the current persona list, replacing the one registered before
+   */
+  private registerPersonaTool(agent: KuchiAgent): void {
+    agent.registerTool({
+      name: 'switch_persona',
+      description:
+        'Switch your persona when the user asks you to act as someone else, e.g. "be my philosophy tutor". ' +
+        'Available personas: ' +
+        this.personas.map((persona) => `${persona.id} (${persona.name}: ${persona.description})`).join('; '),
+      parameters: {
+        type: 'object',
+        properties: {
+          persona: {
+            type: 'string',
+            enum: this.personas.map((persona) => persona.id),
+            description: 'Id of the persona to switch to',
+          },
+        },
+        required: ['persona'],
+      },
+      resultType: 'context',
+      sequential: true,
+      handler: (args: { persona: string }) => {
+        const persona = this.personas.find((item) => item.id === args.persona);
+        if (!persona) {
+          return `Unknown persona: ${args.persona}`;
+        }
+        this.applyPersona(persona);
+        return `Switched to ${persona.name}. Answer in this persona from now on.`;
+      },
+    });
+  }
+
+  /**
+   * Register the saved webhook tools, replacing the ones registered before
+   */
+  private registerWebhookTools(agent: KuchiAgent): void {
+    this.webhookToolNames.forEach((name) => agent.unregisterTool(name));
+    this.webhookToolNames = [];
+
+    loadWebhookTools().forEach((config) => {
+      if (agent.getTools().some((tool) => tool.name === config.name)) {
+        console.warn(`🪝 Skipping webhook tool "${config.name}": a built-in tool has that name`);
+        return;
+      }
+      agent.registerTool(createWebhookTool(config));
+      this.webhookToolNames.push(config.name);
+    });
+  }
+
+  /**
+   * Disable the mic when this browser can't run the chosen speech recognition
+   */
   private checkBrowserSupport(): void {
-    if (!VoiceManager.isSupported()) {
-      this.updateStatus('⚠️ Use Chrome or Edge');
-      this.micBtn.disabled = true;
+    const supported = isSTTSupported(loadSTTConfig(''));
+    this.micBtn.disabled = !supported;
+    if (!supported) {
+      this.updateStatus('⚠️ Pick Whisper in ⚙️ Settings');
       this.robotFace.setExpression('error');
     }
   }
@@ -328,7 +1075,18 @@ class KuchiApp {
       console.log('🎵 Music stopped by user');
     }
 
-    if (this.appState === 'processing' || this.appState === 'speaking') {
+    // Tapping while Kuchi talks cuts it off and listens
+    if (this.appState === 'speaking') {
+      this.interruptSpeaking();
+      return;
+    }
+
+    if (this.appState === 'processing') {
+      return;
+    }
+
+    if (this.handsFreeActive) {
+      this.stopHandsFree();
       return;
     }
 
@@ -345,12 +1103,151 @@ class KuchiApp {
       return;
     }
 
+    if (this.wakeWordConfig.enabled) {
+      this.startHandsFree();
+      return;
+    }
+
     this.setState('listening');
     this.micBtn.classList.add('listening');
     this.voiceManager.startListening();
   }
 
+  private updateWakeWordFields(): void {
+    const wakeGroup = this.wakePhrasesInput.closest('.form-group') as HTMLElement;
+    wakeGroup.style.display = this.listeningModeSelect.value === 'wake' ? 'block' : 'none';
+  }
+
+  private readWakeWordConfig(): WakeWordConfig {
+    const phrases = this.wakePhrasesInput.value
+      .split(',')
+      .map((phrase) => phrase.trim())
+      .filter(Boolean);
+    // An empty field means the default, not 0
+    const followUpValue = this.followUpInput.value.trim();
+    const followUpSeconds = followUpValue ? Number(followUpValue) : DEFAULT_WAKE_WORD_CONFIG.followUpSeconds;
+    return {
+      enabled: this.listeningModeSelect.value === 'wake',
+      phrases: phrases.length > 0 ? phrases : DEFAULT_WAKE_WORD_CONFIG.phrases,
+      followUpSeconds: Number.isFinite(followUpSeconds)
+        ? Math.min(60, Math.max(0, followUpSeconds))
+        : DEFAULT_WAKE_WORD_CONFIG.followUpSeconds,
+    };
+  }
+
+  /**
+   * Use new wake word settings, leaving hands-free mode if it was turned off
+   */
+  private applyWakeWordConfig(config: WakeWordConfig): void {
+    this.wakeWordConfig = config;
+    this.wakeWord.setConfig(config);
+    if (!config.enabled && this.handsFreeActive) {
+      this.stopHandsFree();
+    }
+  }
+
+  /**
+   * Status shown while idle, depending on the listening mode
+   */
+  private idleStatus(): string {
+    if (this.handsFreeActive) {
+      return `Say "${this.wakeWordConfig.phrases[0]}"`;
+    }
+    return this.wakeWordConfig.enabled ? 'Tap to start listening' : 'Tap to speak';
+  }
+
+  /**
+   * Listen continuously and wait for the wake word
+   */
+  private startHandsFree(): void {
+    this.handsFreeActive = true;
+    this.wakeWord.sleep();
+    this.micBtn.classList.add('hands-free');
+    this.voiceManager.setContinuousMode(true);
+    this.showHandsFreeIdle();
+    console.log('👂 Hands-free mode on');
+  }
+
+  private stopHandsFree(): void {
+    this.handsFreeActive = false;
+    this.wakeWord.sleep();
+    if (this.awakeTimer) clearTimeout(this.awakeTimer);
+    this.micBtn.classList.remove('hands-free');
+    this.voiceManager.setContinuousMode(false);
+    this.setState('idle');
+    this.robotFace.setExpression('neutral');
+    this.updateStatus(this.idleStatus());
+    console.log('👂 Hands-free mode off');
+  }
+
+  /**
+   * Show that Kuchi is listening without the wake word, until the window closes
+   */
+  private showAwake(windowMs: number): void {
+    this.setState('listening');
+    this.robotFace.setExpression('listening');
+    this.updateStatus('Listening...');
+
+    if (this.awakeTimer) clearTimeout(this.awakeTimer);
+    this.awakeTimer = window.setTimeout(() => {
+      if (this.handsFreeActive && this.appState === 'listening' && !this.wakeWord.isAwake()) {
+        this.showHandsFreeIdle();
+      }
+    }, windowMs + 100);
+  }
+
+  private showHandsFreeIdle(): void {
+    this.setState('idle');
+    this.robotFace.setExpression('neutral');
+    this.updateStatus(this.idleStatus());
+  }
+
+  /**
+   * Route a final transcript: straight to the agent, or through the wake word in hands-free mode
+   */
+  private handleRecognizedSpeech(text: string): void {
+    if (!this.handsFreeActive) {
+      this.handleSpeechResult(text);
+      return;
+    }
+
+    // Busy with the previous request
+    if (this.appState === 'processing' || this.appState === 'speaking') return;
+
+    const command = this.wakeWord.process(text);
+    if (command) {
+      console.log(`👂 Heard: "${text}"`);
+      this.handleSpeechResult(command);
+    } else if (this.wakeWord.isAwake()) {
+      // Bare wake phrase - the request comes next
+      this.showAwake(WAKE_WORD_TIMEOUT_MS);
+    } else if (this.appState === 'listening') {
+      this.showHandsFreeIdle();
+    }
+  }
+
+  /**
+   * Show the listening face as soon as the wake phrase appears in a partial transcript
+   */
+  private handleInterimResult(text: string): void {
+    if (this.handsFreeActive && this.appState === 'idle' && this.wakeWord.hasWakeWord(text)) {
+      this.showAwake(WAKE_WORD_TIMEOUT_MS);
+    }
+  }
+
+  /**
+   * Whisper: the recording is done, the transcript is on its way
+   */
+  private handleTranscribing(): void {
+    if (this.appState === 'listening') {
+      this.updateStatus('Transcribing...');
+    }
+  }
+
   private handleListeningStart(): void {
+    // Continuous recognition restarts all the time - the wake word drives the UI instead
+    if (this.handsFreeActive) return;
+
     this.setState('listening');
     this.robotFace.setExpression('listening');
     this.updateStatus('Listening...');
@@ -358,11 +1255,12 @@ class KuchiApp {
 
   private handleListeningEnd(): void {
     this.micBtn.classList.remove('listening');
+    if (this.handsFreeActive) return;
     
     if (this.appState === 'listening') {
       this.setState('idle');
       this.robotFace.setExpression('neutral');
-      this.updateStatus('Tap to speak');
+      this.updateStatus(this.idleStatus());
     }
   }
 
@@ -380,88 +1278,264 @@ class KuchiApp {
       return;
     }
 
+    const turnStarted = new Date().toISOString();
+    const turn = ++this.currentTurn;
+
+    // Auto mode: reply in the language the user just spoke
+    if (this.languageSetting === 'auto') {
+      const detected = detectLanguage(text);
+      if (detected) this.currentLanguage = detected;
+      this.agent.setLanguageInstruction(languageInstruction('auto', detected));
+    }
+
     // Processing state
     this.setState('processing');
     this.robotFace.setExpression('thinking');
     this.updateStatus('Thinking...');
 
     try {
-      // Get response
-      const response = await this.agent.sendMessage(text);
-      console.log('🤖 Kuchi:', response);
+      // Stream the reply and speak each sentence as soon as it is complete
+      this.musicRequested = false;
+      this.voiceManager.beginSpeechStream();
 
-      // Check if this is a music playback request
-      if (response.includes('🎵PLAY_MUSIC🎵')) {
-        // Speak confirmation first
-        const confirmationMessage = "Sure! Let me play some music for you.";
-        this.speakingExpression = 'excited';
-        this.robotFace.setExpression(this.speakingExpression);
-        this.robotFace.setSpeaking(true);
-        this.setState('speaking');
-        this.updateStatus('Speaking...');
-        await this.voiceManager.speak(confirmationMessage);
-
-        // Play music in background and show love expression
-        this.handlePlayMusic();
+      let response = '';
+      let expressionSet = false;
+
+      for await (const delta of this.agent.streamMessage(text)) {
+        // Interrupted - the agent stops the stream, nothing more is spoken
+        if (this.interruptedTurn === turn) continue;
 
-        // Add context to agent's memory that music is playing
-        if (this.agent) {
-          await this.agent.sendMessage('[SYSTEM: Music is now playing in the background]');
+        response += delta;
+        const sentences = this.voiceManager.pushSpeechText(delta);
+
+        // Expression is picked from the first sentence and stays FIXED for the whole reply
+        if (!expressionSet && sentences.length > 0) {
+          this.startSpeakingWith(sentences[0]);
+          expressionSet = true;
         }
+      }
 
-        return;
+      console.log('🤖 Kuchi:', response);
+
+      if (!expressionSet && this.interruptedTurn !== turn) {
+        this.startSpeakingWith(response);
       }
 
-      // Determine expression based on sentiment
-      // This expression will stay FIXED during the entire speech
-      this.speakingExpression = this.robotFace.getExpressionFromSentiment(response);
+      // Cards stay up until the next reply replaces them
+      this.sourceCards.show(this.agent.getLastSources());
 
-      // Set the expression BEFORE speaking starts
-      this.robotFace.setExpression(this.speakingExpression);
-      this.robotFace.setSpeaking(true);
+      await this.voiceManager.endSpeechStream();
 
-      this.setState('speaking');
-      this.updateStatus('Speaking...');
+      // Auto mode: listen in the language of this turn next time (the user may have asked to switch)
+      if (this.languageSetting === 'auto') {
+        this.currentLanguage = detectLanguage(response) ?? this.currentLanguage;
+        this.voiceManager.setLanguage(this.currentLanguage, true);
+      }
 
-      // Speak - expression stays fixed, no mouth animation
-      await this.voiceManager.speak(response);
+      const interrupted = this.interruptedTurn === turn;
+      this.recordTurn(text, turnStarted, response, this.speakingExpression, interrupted);
 
+      // The play_music tool ran during this turn - start it once the reply is spoken
+      if (interrupted) {
+        this.musicRequested = false;
+      } else if (this.musicRequested) {
+        this.musicRequested = false;
+        this.handlePlayMusic();
+      }
     } catch (error: any) {
       console.error('Error:', error);
+      this.vad.stop();
+      this.voiceManager.stopSpeaking();
+      this.robotFace.setSpeaking(false);
       this.handleError(error.message || 'Request failed');
     }
   }
 
+  /**
+   * Save a finished turn to the current session
+   */
+  private async recordTurn(
+    userText: string,
+    startedAt: string,
+    reply: string,
+    expression: Expression,
+    interrupted = false
+  ): Promise<void> {
+    if (!this.agent) return;
+
+    const session = this.currentSession;
+    const now = new Date().toISOString();
+    const toolCalls = this.agent.getLastToolCalls();
+    const sources = this.agent.getLastSources();
+
+    if (session.entries.length === 0) {
+      session.title = userText.length > 40 ? `${userText.slice(0, 40)}…` : userText;
+    }
+
+    session.entries.push(
+      { role: 'user', text: userText, timestamp: startedAt },
+      {
+        role: 'assistant',
+        text: reply,
+        timestamp: now,
+        expression,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        sources: sources.length > 0 ? sources : undefined,
+        interrupted: interrupted || undefined,
+      }
+    );
+    session.updated = now;
+    session.messages = this.agent.getHistory().filter((message) => message.role !== 'system');
+    session.summary = this.agent.getSummary();
+
+    try {
+      await this.conversationStore.save(session);
+    } catch (error) {
+      console.error('📜 Failed to save conversation:', error);
+    }
+  }
+
+  /**
+   * Start a fresh conversation
+   */
+  private startNewSession(): void {
+    this.agent?.clearHistory();
+    this.currentSession = this.conversationStore.createSession();
+    this.sourceCards.clear();
+    this.updateStatus('New conversation - tap to speak');
+    console.log('📜 Started new session');
+  }
+
+  /**
+   * Continue a saved conversation
+   */
+  private resumeSession(session: ConversationSession): void {
+    if (!this.agent) {
+      this.updateStatus('Configure API keys first');
+      this.openSettings();
+      return;
+    }
+
+    this.agent.loadHistory(session.messages, session.summary);
+
+    // Follow-ups like "read me more" refer to the last search in the session
+    const lastSources = [...session.entries].reverse().find((entry) => entry.sources?.length)?.sources ?? [];
+    this.agent.setRecentSources(lastSources);
+    this.sourceCards.show(lastSources);
+
+    this.currentSession = session;
+    this.updateStatus(`Resumed: ${session.title}`);
+    console.log('📜 Resumed session', session.id);
+  }
+
+  /**
+   * Set the speaking expression and state before speech starts
+   */
+  private startSpeakingWith(text: string): void {
+    // Music replies are always excited, otherwise the emotion the model picked,
+    // and keyword sentiment only when it didn't pick one
+    const emotion = this.musicRequested ? null : this.agent?.getLastEmotion() ?? null;
+    if (this.musicRequested) {
+      this.speakingExpression = 'excited';
+    } else if (emotion) {
+      this.speakingExpression = emotion.expression;
+      console.log(`🎭 Model picked ${emotion.expression} (intensity ${emotion.intensity})`);
+    } else {
+      this.speakingExpression = this.robotFace.getExpressionFromSentiment(
+        text,
+        this.currentPersona.expressionBias,
+        detectLanguage(text) ?? this.currentLanguage
+      );
+    }
+
+    const intensity = emotion?.intensity ?? 1;
+    this.robotFace.setExpression(this.speakingExpression, intensity);
+    this.robotFace.setSpeaking(true);
+    this.voiceManager.setSpeechExpression(this.speakingExpression, intensity);
+
+    this.setState('speaking');
+    this.updateStatus('Speaking...');
+  }
+
   private handleSpeakingStart(): void {
     this.setState('speaking');
     this.updateStatus('Speaking...');
     // Expression is already set from sentiment analysis
     // It stays fixed - no animation during speech
+
+    // Start once audio plays, so the noise floor includes Kuchi's own voice
+    if (this.bargeInEnabled && VoiceActivityDetector.isSupported()) {
+      this.vad.start().catch((error) => console.warn('✋ Voice activity detection unavailable:', error));
+    }
   }
 
   private handleSpeakingEnd(): void {
+    this.vad.stop();
     this.robotFace.setSpeaking(false);
+
+    // Interrupted - already listening for the next turn
+    if (this.appState === 'listening') return;
+
+    // Hands-free: the user can answer without the wake word for a while
+    if (this.handsFreeActive && this.wakeWord.getFollowUpMs() > 0) {
+      this.wakeWord.openFollowUpWindow();
+      this.showAwake(this.wakeWord.getFollowUpMs());
+      return;
+    }
+
     this.setState('idle');
     
     // Brief delay before returning to neutral
     setTimeout(() => {
       if (this.appState === 'idle') {
         this.robotFace.setExpression('neutral');
-        this.updateStatus('Tap to speak');
+        this.updateStatus(this.idleStatus());
       }
     }, 500);
   }
 
+  /**
+   * Barge-in: stop talking, note the cut-off reply in the history and listen to the user
+   */
+  private interruptSpeaking(): void {
+    if (this.appState !== 'speaking') return;
+
+    console.log('✋ User interrupted Kuchi');
+    this.vad.stop();
+    this.interruptedTurn = this.currentTurn;
+    this.agent?.abortReply(this.voiceManager.getSpokenText());
+    this.voiceManager.stopSpeaking();
+    this.robotFace.setSpeaking(false);
+
+    if (this.handsFreeActive) {
+      // No need to say the wake word again
+      this.wakeWord.wakeUp();
+      this.showAwake(WAKE_WORD_TIMEOUT_MS);
+    } else {
+      this.setState('listening');
+      this.micBtn.classList.add('listening');
+      this.robotFace.setExpression('listening');
+      this.updateStatus('Listening...');
+    }
+    this.voiceManager.startListening();
+  }
+
   private handleError(error: string): void {
     if (error.toLowerCase().includes('no speech')) {
       this.setState('idle');
       this.robotFace.setExpression('neutral');
-      this.updateStatus('Tap to speak');
+      this.updateStatus(this.idleStatus());
       this.micBtn.classList.remove('listening');
       return;
     }
 
     console.error('❌ Error:', error);
+
+    // Recognition would keep failing and restarting without the mic
+    if (this.handsFreeActive && /microphone|speech service|not available/i.test(error)) {
+      this.stopHandsFree();
+    }
+
     this.setState('error');
     this.robotFace.setExpression('worried');
     this.updateStatus(this.truncateError(error));
@@ -471,7 +1545,7 @@ class KuchiApp {
       if (this.appState === 'error') {
         this.setState('idle');
         this.robotFace.setExpression('neutral');
-        this.updateStatus('Tap to speak');
+        this.updateStatus(this.idleStatus());
       }
     }, 4000);
   }
@@ -491,15 +1565,31 @@ class KuchiApp {
 
   private openSettings(): void {
     const apiKey = localStorage.getItem(this.API_KEY_STORAGE);
-    const serpApiKey = localStorage.getItem(this.SERP_API_KEY_STORAGE);
     const selectedVoice = localStorage.getItem(this.VOICE_STORAGE);
     const ttsProvider = localStorage.getItem(this.TTS_PROVIDER_STORAGE) || 'browser';
     const openaiVoice = localStorage.getItem(this.OPENAI_VOICE_STORAGE) || 'alloy';
 
     this.apiKeyInput.value = apiKey || '';
-    this.serpApiKeyInput.value = serpApiKey || '';
+    this.showSearchConfig(loadSearchConfig());
+    this.showProviderConfig(loadProviderConfig(apiKey || ''));
+    this.contextBudgetInput.value = String(loadContextBudget() ?? '');
+    this.showSTTConfig(loadSTTConfig(apiKey || ''));
+    this.languageSelect.value = this.languageSetting;
+    this.listeningModeSelect.value = this.wakeWordConfig.enabled ? 'wake' : 'tap';
+    this.wakePhrasesInput.value = this.wakeWordConfig.phrases.join(', ');
+    this.followUpInput.value = String(this.wakeWordConfig.followUpSeconds);
+    this.updateWakeWordFields();
+    this.bargeInCheckbox.checked = this.bargeInEnabled;
+    this.cameraPresenceCheckbox.checked = localStorage.getItem(this.CAMERA_PRESENCE_STORAGE) === 'true';
+    this.cameraPresenceCheckbox.disabled = !CameraFrameSource.isSupported();
+    const webhookTools = loadWebhookTools();
+    this.webhookToolsInput.value = webhookTools.length > 0 ? JSON.stringify(webhookTools, null, 2) : '';
     this.ttsProviderSelect.value = ttsProvider;
     this.openaiVoiceSelect.value = openaiVoice;
+    this.showTTSSettings(loadTTSSettings());
+    this.faceRendererSelect.value = loadFaceRendererType();
+    this.personaSelect.value = this.currentPersona.id;
+    this.updatePersonaDescription();
 
     // Show/hide voice selectors based on TTS provider
     this.updateVoiceSelectors();
@@ -523,13 +1613,131 @@ class KuchiApp {
     }
 
     this.settingsModal.classList.remove('hidden');
-    this.apiKeyInput.focus();
+    this.chatProviderSelect.focus();
   }
 
   private closeSettings(): void {
     this.settingsModal.classList.add('hidden');
   }
 
+  /**
+   * Download memory and settings as a JSON backup file
+   */
+  private async exportBackup(): Promise<void> {
+    try {
+      const memory = this.agent?.getMemory() ?? loadStoredMemory() ?? (await this.fetchDefaultMemory());
+
+      const includeSecrets = confirm('Include API keys in the backup file?');
+      const settings: Record<string, string> = {};
+      this.SETTINGS_KEYS.forEach((key) => {
+        const value = localStorage.getItem(key);
+        if (value !== null && (includeSecrets || !this.SECRET_SETTINGS_KEYS.includes(key))) {
+          settings[key] = value;
+        }
+      });
+
+      const backup = createBackup(memory, settings);
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `kuchi-backup-${backup.exported_at.split('T')[0]}.json`;
+      link.click();
+      // Some browsers start the download after click() returns
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+
+      console.log('📤 Backup exported');
+    } catch (error: any) {
+      console.error('Export failed:', error);
+      alert(`Export failed: ${error.message || error}`);
+    }
+  }
+
+  /**
+   * Load memory and settings from a backup file
+   * Merge keeps current settings and combines memory; replace overwrites both
+   */
+  private async importBackup(file: File): Promise<void> {
+    try {
+      const { memory, settings } = parseBackup(await file.text());
+      const mode = this.importModeSelect.value as ImportMode;
+
+      const agentSettingsBefore = this.snapshotSettings(this.AGENT_SETTINGS_KEYS);
+
+      Object.entries(settings).forEach(([key, value]) => {
+        if (!this.SETTINGS_KEYS.includes(key)) return;
+        if (mode === 'replace' || localStorage.getItem(key) === null) {
+          localStorage.setItem(key, value);
+        }
+      });
+
+      const keysChanged = this.snapshotSettings(this.AGENT_SETTINGS_KEYS) !== agentSettingsBefore;
+
+      if (this.agent && !keysChanged) {
+        this.agent.importMemory(memory, mode);
+        this.registerWebhookTools(this.agent);
+      } else {
+        // Save first so a new agent starts from the imported memory
+        const current = this.agent?.getMemory() ?? loadStoredMemory();
+        saveStoredMemory(mode === 'merge' && current ? mergeMemory(current, memory) : memory);
+        this.agent = null;
+        this.initializeAgent();
+      }
+
+      this.applyLanguageSetting(loadLanguageSetting());
+      this.configureSpeechRecognition();
+      this.checkBrowserSupport();
+      this.applyWakeWordConfig(loadWakeWordConfig());
+      this.robotFace.setCustomExpressions(loadCustomExpressions());
+      this.robotFace.setRenderer(loadFaceRendererType());
+      this.bargeInEnabled = localStorage.getItem(this.BARGE_IN_STORAGE) !== 'false';
+      this.configurePresence();
+      this.personas = loadPersonas();
+      this.populatePersonaList();
+      if (this.agent) {
+        this.registerPersonaTool(this.agent);
+      }
+      this.applyPersona(findPersona(this.personas, localStorage.getItem(PERSONA_STORAGE_KEY)));
+      const savedVoice = localStorage.getItem(this.VOICE_STORAGE);
+      if (savedVoice) {
+        this.voiceManager.setPreferredVoice(savedVoice);
+      }
+
+      // Refresh the form with the imported values
+      this.openSettings();
+      this.updateStatus('Backup imported!');
+      this.robotFace.setExpression('happy');
+      console.log(`📥 Backup imported (${mode})`);
+    } catch (error: any) {
+      console.error('Import failed:', error);
+      alert(`Import failed: ${error.message || error}`);
+      this.robotFace.setExpression('confused');
+    } finally {
+      this.importFileInput.value = '';
+    }
+  }
+
+  /**
+   * Current values of some settings, for change detection
+   */
+  private snapshotSettings(keys: string[]): string {
+    return JSON.stringify(keys.map((key) => localStorage.getItem(key)));
+  }
+
+  /**
+   * Fetch public/memory.json, or blank memory if it can't be loaded
+   */
+  private async fetchDefaultMemory(): Promise<UserMemory> {
+    try {
+      const response = await fetch('/memory.json');
+      return parseMemory(await response.json());
+    } catch (error) {
+      console.warn('Failed to load memory.json:', error);
+      return createEmptyMemory();
+    }
+  }
+
   /**
    * Handle drag start - reset activity timer and disable dragging during interactions
    */
@@ -578,15 +1786,25 @@ class KuchiApp {
     // Re-enable dragging
     this.dragManager.setEnabled(true);
 
-    // Return to neutral after a brief delay
-    setTimeout(() => {
-      if (this.appState === 'idle' &&
-          (this.robotFace.getCurrentExpression() === 'annoyed' ||
-           this.robotFace.getCurrentExpression() === 'furious')) {
-        this.robotFace.setExpression('neutral');
-        this.updateStatus('Tap to speak');
+    // Calm down back to neutral
+    const expression = this.robotFace.getCurrentExpression();
+    if (this.appState === 'idle' && (expression === 'annoyed' || expression === 'furious')) {
+      this.react('calm-down');
+    }
+  }
+
+  /**
+   * Play a reaction choreography, then restore the idle status if nothing else took over meanwhile
+   */
+  private react(choreography: string, status?: string): void {
+    if (status) {
+      this.updateStatus(status);
+    }
+    this.robotFace.play(choreography).finished.then((completed) => {
+      if (completed && this.appState === 'idle') {
+        this.updateStatus(this.idleStatus());
       }
-    }, 1500);
+    });
   }
 
   /**
@@ -603,40 +1821,19 @@ class KuchiApp {
 
     switch (zone) {
       case 'head':
-        // Head tap makes Kuchi happy
-        this.robotFace.setExpression('happy');
-        this.updateStatus('Hehe! That tickles!');
-        setTimeout(() => {
-          if (this.appState === 'idle') {
-            this.robotFace.setExpression('neutral');
-            this.updateStatus('Tap to speak');
-          }
-        }, 2000);
+        // Head tap makes Kuchi giggle
+        this.react('giggle', 'Hehe! That tickles!');
         break;
 
       case 'body':
-        // Body tap makes Kuchi curious
-        this.robotFace.setExpression('surprised');
-        this.updateStatus('What was that?');
-        setTimeout(() => {
-          if (this.appState === 'idle') {
-            this.robotFace.setExpression('neutral');
-            this.updateStatus('Tap to speak');
-          }
-        }, 1500);
+        // Body tap makes Kuchi look down, then again
+        this.react('double-take', 'What was that?');
         break;
 
       case 'arm-left':
       case 'arm-right':
         // Arm tap makes Kuchi wave
-        this.robotFace.setExpression('glee');
-        this.updateStatus('Hello there!');
-        setTimeout(() => {
-          if (this.appState === 'idle') {
-            this.robotFace.setExpression('neutral');
-            this.updateStatus('Tap to speak');
-          }
-        }, 1500);
+        this.react('wave-hello', 'Hello there!');
         break;
     }
   }
@@ -655,77 +1852,144 @@ class KuchiApp {
     this.musicManager.play();
   }
 
-  private saveSettings(): void {
+  private async saveSettings(): Promise<void> {
     const apiKey = this.apiKeyInput.value.trim();
-    const serpApiKey = this.serpApiKeyInput.value.trim();
     const selectedVoice = this.voiceSelect.value;
     const ttsProvider = this.ttsProviderSelect.value;
     const openaiVoice = this.openaiVoiceSelect.value;
     const userName = this.userNameInput.value.trim();
     const memoryNotes = this.memoryNotesInput.value.trim();
 
-    if (!apiKey) {
-      alert('Please enter an OpenAI API key');
-      this.apiKeyInput.focus();
+    const provider = this.readProviderConfig(apiKey);
+    const providerError = validateProviderConfig(provider);
+    if (providerError) {
+      alert(providerError);
+      (provider.preset === 'openai' && !apiKey ? this.apiKeyInput : this.providerBaseUrlInput).focus();
+      return;
+    }
+
+    const contextBudget = this.readContextBudget();
+    if (contextBudget === undefined) {
+      alert(`Context budget must be a number of tokens from ${MIN_CONTEXT_BUDGET} to ${MAX_CONTEXT_BUDGET}, or empty`);
+      this.contextBudgetInput.focus();
       return;
     }
 
-    if (!apiKey.startsWith('sk-')) {
-      alert('Invalid OpenAI API key format');
+    if (ttsProvider === 'openai' && !apiKey) {
+      alert('OpenAI TTS needs an OpenAI API key');
       this.apiKeyInput.focus();
       return;
     }
 
-    if (!serpApiKey) {
-      alert('Please enter a SerpAPI key');
-      this.serpApiKeyInput.focus();
+    const search = this.readSearchConfig();
+    const searchError = validateSearchConfig(search);
+    if (searchError) {
+      alert(searchError);
+      (findSearchOption(search.provider).needsKey && !search.apiKey
+        ? this.searchApiKeyInput
+        : this.searchEndpointInput
+      ).focus();
       return;
     }
 
+    let webhookTools: WebhookToolConfig[];
+    try {
+      const webhookJson = this.webhookToolsInput.value.trim();
+      webhookTools = parseWebhookTools(webhookJson ? JSON.parse(webhookJson) : []);
+    } catch (error: any) {
+      alert(error instanceof SyntaxError ? `Webhook tools are not valid JSON: ${error.message}` : error.message);
+      this.webhookToolsInput.focus();
+      return;
+    }
+
+    const stt = this.readSTTConfig(apiKey);
+    const sttError = validateSTTConfig(stt);
+    if (sttError) {
+      alert(sttError);
+      (stt.provider === 'openai' && !apiKey
+        ? this.apiKeyInput
+        : stt.provider === 'whisper'
+          ? this.sttEndpointInput
+          : this.sttProviderSelect
+      ).focus();
+      return;
+    }
+
+    const wakeWordConfig = this.readWakeWordConfig();
+
+    const agentSettingsBefore = this.snapshotSettings(this.AGENT_SETTINGS_KEYS);
+
     localStorage.setItem(this.API_KEY_STORAGE, apiKey);
-    localStorage.setItem(this.SERP_API_KEY_STORAGE, serpApiKey);
+    saveSearchConfig(search);
+    saveProviderConfig(provider);
+    saveContextBudget(contextBudget);
+    saveWebhookTools(webhookTools);
+    const languageSetting = this.languageSelect.value as LanguageSetting;
+    saveLanguageSetting(languageSetting);
+    saveSTTConfig(stt);
+    this.voiceManager.setSTTConfig(stt);
+    this.applyLanguageSetting(languageSetting);
+    this.checkBrowserSupport();
+    saveWakeWordConfig(wakeWordConfig);
+    this.applyWakeWordConfig(wakeWordConfig);
+    this.bargeInEnabled = this.bargeInCheckbox.checked;
+    localStorage.setItem(this.BARGE_IN_STORAGE, String(this.bargeInEnabled));
     localStorage.setItem(this.VOICE_STORAGE, selectedVoice);
     localStorage.setItem(this.TTS_PROVIDER_STORAGE, ttsProvider);
     localStorage.setItem(this.OPENAI_VOICE_STORAGE, openaiVoice);
+    saveTTSSettings(this.readTTSSettings());
+    const faceRenderer = this.faceRendererSelect.value as FaceRendererType;
+    saveFaceRendererType(faceRenderer);
+    this.robotFace.setRenderer(faceRenderer);
+    localStorage.setItem(this.CAMERA_PRESENCE_STORAGE, String(this.cameraPresenceCheckbox.checked));
+    this.configurePresence();
 
-    // Update voice manager based on TTS provider
-    if (ttsProvider === 'openai') {
-      this.voiceManager.enableOpenAITTS(apiKey, openaiVoice as any, 1.0);
-    } else {
-      this.voiceManager.useBrowserTTS();
-      this.voiceManager.setPreferredVoice(selectedVoice);
-    }
+    // Update voice manager based on TTS provider and persona
+    this.voiceManager.setPreferredVoice(selectedVoice);
+    this.applyPersona(findPersona(this.personas, this.personaSelect.value));
 
     try {
-      // Create or update agent
-      const wasExisting = this.agent !== null;
+      // Create the agent, or recreate it if the provider or keys changed
+      const previous = this.agent;
+      const agentChanged = this.snapshotSettings(this.AGENT_SETTINGS_KEYS) !== agentSettingsBefore;
+      const wasExisting = previous !== null && !agentChanged;
       if (!wasExisting) {
-        this.agent = new KuchiAgent(apiKey, serpApiKey);
+        this.agent = this.createAgent(provider, search);
+        // The system prompt must be in place first, or the summary message would be taken for it
+        await this.agent.ready;
+
+        // Keep the current conversation going on the new agent
+        if (previous) {
+          this.agent.loadHistory(
+            previous.getHistory().filter((message) => message.role !== 'system'),
+            previous.getSummary()
+          );
+          this.agent.setRecentSources(previous.getRecentSources());
+        }
+      } else if (this.agent) {
+        this.registerWebhookTools(this.agent);
       }
 
-      // Wait a moment for agent to initialize, then update memory
-      setTimeout(() => {
-        if (this.agent) {
-          // Update memory with user inputs
-          if (userName) {
-            this.agent.updateUserName(userName);
-          }
-          if (memoryNotes) {
-            this.agent.updateUserNotes(memoryNotes);
-          }
-
-          // Refresh the system prompt with new memory
-          this.agent.refreshSystemPrompt();
+      if (this.agent) {
+        // Update memory with user inputs
+        if (userName) {
+          this.agent.updateUserName(userName);
+        }
+        if (memoryNotes) {
+          this.agent.updateUserNotes(memoryNotes);
         }
 
-        this.updateStatus('Settings saved! Tap to speak');
-        this.robotFace.setExpression('happy');
+        // Refresh the system prompt with new memory
+        this.agent.refreshSystemPrompt();
+      }
+
+      this.updateStatus('Settings saved! Tap to speak');
+      this.robotFace.setExpression('happy');
 
-        setTimeout(() => {
-          this.closeSettings();
-          this.robotFace.setExpression('neutral');
-        }, 1000);
-      }, wasExisting ? 0 : 500);
+      setTimeout(() => {
+        this.closeSettings();
+        this.robotFace.setExpression('neutral');
+      }, 1000);
 
     } catch (error) {
       alert('Failed to initialize. Check your API keys.');
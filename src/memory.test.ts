@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CURRENT_MEMORY_VERSION,
+  MAX_MEMORY_ITEMS,
+  MAX_MEMORY_ITEM_LENGTH,
+  MAX_TOPICS,
+  createEmptyMemory,
+  mergeMemory,
+  migrateMemory,
+  parseBackup,
+  parseMemory,
+} from './memory';
+
+describe('migrateMemory', () => {
+  it('moves unversioned top-level fields under user', () => {
+    const migrated = migrateMemory({ name: 'Asha', notes: ['Likes tea'], facts: [] });
+    expect(migrated.version).toBe(CURRENT_MEMORY_VERSION);
+    expect(migrated.user).toMatchObject({ name: 'Asha', notes: ['Likes tea'] });
+  });
+
+  it('rejects unknown versions', () => {
+    expect(() => migrateMemory({ version: '9.9' })).toThrow('Unsupported memory version: 9.9');
+  });
+});
+
+describe('parseMemory', () => {
+  it('fills in missing fields', () => {
+    const memory = parseMemory({ version: CURRENT_MEMORY_VERSION, user: {} });
+    expect(memory.user.name).toBe('');
+    expect(memory.user.preferences.communication_style).toBe('casual and friendly');
+    expect(memory.facts).toEqual([]);
+  });
+
+  it('drops empty and non-string list entries', () => {
+    const memory = parseMemory({ version: CURRENT_MEMORY_VERSION, user: { notes: ['ok', '', 3, '  '] } });
+    expect(memory.user.notes).toEqual(['ok']);
+  });
+
+  it('caps lists and item length, keeping the newest items', () => {
+    const facts = Array.from({ length: MAX_MEMORY_ITEMS + 5 }, (_, index) => `fact ${index}`);
+    const topics = Array.from({ length: MAX_TOPICS + 1 }, (_, index) => `topic ${index}`);
+    const memory = parseMemory({
+      version: CURRENT_MEMORY_VERSION,
+      user: { notes: [` ${'x'.repeat(MAX_MEMORY_ITEM_LENGTH + 10)} `], preferences: { topics_of_interest: topics } },
+      facts,
+    });
+
+    expect(memory.facts).toHaveLength(MAX_MEMORY_ITEMS);
+    expect(memory.facts[0]).toBe('fact 5');
+    expect(memory.user.preferences.topics_of_interest).toHaveLength(MAX_TOPICS);
+    expect(memory.user.notes[0]).toHaveLength(MAX_MEMORY_ITEM_LENGTH);
+  });
+
+  it('rejects data of the wrong shape', () => {
+    expect(() => parseMemory('memory')).toThrow('expected an object');
+    expect(() => parseMemory({ version: CURRENT_MEMORY_VERSION, user: [] })).toThrow('"user" must be an object');
+    expect(() => parseMemory({ version: CURRENT_MEMORY_VERSION, user: { notes: 'x' } })).toThrow(
+      '"user.notes" must be a list'
+    );
+  });
+});
+
+describe('mergeMemory', () => {
+  it('combines lists without duplicates and prefers imported single fields', () => {
+    const base = createEmptyMemory();
+    base.user.name = 'Asha';
+    base.facts = ['Paris is in France'];
+    const incoming = createEmptyMemory();
+    incoming.user.context = 'Works nights';
+    incoming.facts = ['paris is in france ', 'Water boils at 100C'];
+
+    const merged = mergeMemory(base, incoming);
+    expect(merged.user.name).toBe('Asha');
+    expect(merged.user.context).toBe('Works nights');
+    expect(merged.facts).toEqual(['Paris is in France', 'Water boils at 100C']);
+  });
+
+  it('caps merged lists', () => {
+    const base = createEmptyMemory();
+    base.facts = Array.from({ length: MAX_MEMORY_ITEMS }, (_, index) => `old ${index}`);
+    const incoming = createEmptyMemory();
+    incoming.facts = ['new'];
+
+    const merged = mergeMemory(base, incoming);
+    expect(merged.facts).toHaveLength(MAX_MEMORY_ITEMS);
+    expect(merged.facts[merged.facts.length - 1]).toBe('new');
+  });
+});
+
+describe('parseBackup', () => {
+  it('reads a backup file and keeps only string settings', () => {
+    const json = JSON.stringify({
+      kind: 'kuchi-backup',
+      backup_version: 1,
+      memory: { version: CURRENT_MEMORY_VERSION, user: { name: 'Asha' } },
+      settings: { kuchi_language: 'hi', broken: 3 },
+    });
+    const { memory, settings } = parseBackup(json);
+    expect(memory.user.name).toBe('Asha');
+    expect(settings).toEqual({ kuchi_language: 'hi' });
+  });
+
+  it('accepts a bare memory object', () => {
+    expect(parseBackup('{"user": {"name": "Asha"}}').memory.user.name).toBe('Asha');
+  });
+
+  it('rejects invalid JSON', () => {
+    expect(() => parseBackup('{')).toThrow('Backup file is not valid JSON');
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Kuchi - Memory Schema
+ * Validates stored memory, migrates old versions and handles backup files
+ */
+
+export interface UserMemory {
+  version: string;
+  user: {
+    name: string;
+    preferences: {
+      communication_style: string;
+      topics_of_interest: string[];
+    };
+    context: string;
+    notes: string[];
+  };
+  facts: string[];
+  last_updated: string;
+  created: string;
+}
+
+export interface KuchiBackup {
+  kind: 'kuchi-backup';
+  backup_version: 1;
+  exported_at: string;
+  memory: UserMemory;
+  settings: Record<string, string>;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export const MEMORY_STORAGE_KEY = 'kuchi_memory';
+export const CURRENT_MEMORY_VERSION = '1.0';
+
+// Caps for memory lists, so the system prompt stays small
+export const MAX_MEMORY_ITEMS = 50;     // Per list (facts, notes)
+export const MAX_TOPICS = 20;
+export const MAX_MEMORY_ITEM_LENGTH = 200;
+
+/**
+ * Migrations keyed on the version they upgrade FROM
+ * Each one returns data in the next version's shape
+ */
+const MIGRATIONS: Record<
+  string,
+  { to: string; migrate: (data: Record<string, unknown>) => Record<string, unknown> }
+> = {
+  // Unversioned entries from before the schema had a version field
+  '0': {
+    to: '1.0',
+    migrate: (data) => {
+      const user = isRecord(data.user) ? data.user : {};
+      return {
+        ...data,
+        version: '1.0',
+        user: {
+          name: user.name ?? data.name ?? '',
+          preferences: user.preferences ?? data.preferences ?? {},
+          context: user.context ?? '',
+          notes: user.notes ?? data.notes ?? [],
+        },
+      };
+    },
+  },
+};
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Create a blank memory in the current schema
+ */
+export function createEmptyMemory(): UserMemory {
+  return {
+    version: CURRENT_MEMORY_VERSION,
+    user: {
+      name: '',
+      preferences: {
+        communication_style: 'casual and friendly',
+        topics_of_interest: [],
+      },
+      context: '',
+      notes: [],
+    },
+    facts: [],
+    last_updated: today(),
+    created: today(),
+  };
+}
+
+/**
+ * Run migrations until the data reaches the current version
+ */
+export function migrateMemory(data: Record<string, unknown>): Record<string, unknown> {
+  let version = typeof data.version === 'string' ? data.version : '0';
+
+  while (version !== CURRENT_MEMORY_VERSION) {
+    const migration = MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`Unsupported memory version: ${version}`);
+    }
+    console.log(`🧠 Migrating memory ${version} → ${migration.to}`);
+    data = migration.migrate(data);
+    version = migration.to;
+  }
+
+  return data;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readString(value: unknown, field: string, fallback?: string): string {
+  if (typeof value === 'string') return value;
+  if (value === undefined && fallback !== undefined) return fallback;
+  throw new Error(`Invalid memory: "${field}" must be a string`);
+}
+
+/**
+ * Read a list of strings, trimmed and capped like the memory tools cap them (the newest max items are kept)
+ */
+function readStringList(value: unknown, field: string, max: number): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid memory: "${field}" must be a list`);
+  }
+  // Drop non-string and empty entries rather than rejecting the whole memory
+  return value
+    .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    .map((item) => item.trim().slice(0, MAX_MEMORY_ITEM_LENGTH))
+    .slice(-max);
+}
+
+/**
+ * Migrate and validate untrusted memory data
+ * Throws if the data can't be turned into a valid UserMemory
+ */
+export function parseMemory(data: unknown): UserMemory {
+  if (!isRecord(data)) {
+    throw new Error('Invalid memory: expected an object');
+  }
+
+  const migrated = migrateMemory(data);
+  if (!isRecord(migrated.user)) {
+    throw new Error('Invalid memory: "user" must be an object');
+  }
+
+  const preferences = isRecord(migrated.user.preferences) ? migrated.user.preferences : {};
+  const empty = createEmptyMemory();
+
+  return {
+    version: CURRENT_MEMORY_VERSION,
+    user: {
+      name: readString(migrated.user.name, 'user.name', ''),
+      preferences: {
+        communication_style: readString(
+          preferences.communication_style,
+          'user.preferences.communication_style',
+          empty.user.preferences.communication_style
+        ),
+        topics_of_interest: readStringList(
+          preferences.topics_of_interest,
+          'user.preferences.topics_of_interest',
+          MAX_TOPICS
+        ),
+      },
+      context: readString(migrated.user.context, 'user.context', ''),
+      notes: readStringList(migrated.user.notes, 'user.notes', MAX_MEMORY_ITEMS),
+    },
+    facts: readStringList(migrated.facts, 'facts', MAX_MEMORY_ITEMS),
+    last_updated: readString(migrated.last_updated, 'last_updated', empty.last_updated),
+    created: readString(migrated.created, 'created', empty.created),
+  };
+}
+
+/**
+ * Load and validate memory from localStorage
+ * A corrupt entry is moved aside so it can't break startup again
+ */
+export function loadStoredMemory(): UserMemory | null {
+  const saved = localStorage.getItem(MEMORY_STORAGE_KEY);
+  if (!saved) {
+    console.log('📦 No memory found in localStorage');
+    return null;
+  }
+
+  console.log('📦 Found memory in localStorage');
+  console.log('📦 Size:', (saved.length / 1024).toFixed(2), 'KB');
+
+  try {
+    return parseMemory(JSON.parse(saved));
+  } catch (error) {
+    console.error('❌ Stored memory is invalid, moving it to kuchi_memory_corrupt:', error);
+    localStorage.setItem(`${MEMORY_STORAGE_KEY}_corrupt`, saved);
+    localStorage.removeItem(MEMORY_STORAGE_KEY);
+    return null;
+  }
+}
+
+/**
+ * Save memory to localStorage
+ */
+export function saveStoredMemory(memory: UserMemory): void {
+  const memoryString = JSON.stringify(memory, null, 2);
+  localStorage.setItem(MEMORY_STORAGE_KEY, memoryString);
+  console.log('💾 Memory saved to localStorage');
+  console.log('💾 Memory size:', (memoryString.length / 1024).toFixed(2), 'KB');
+}
+
+/**
+ * Combine two lists without duplicates, keeping the newest (last) items past the cap
+ */
+function mergeLists(base: string[], incoming: string[], max: number): string[] {
+  const seen = new Set(base.map((item) => item.trim().toLowerCase()));
+  const merged = [...base];
+  incoming.forEach((item) => {
+    const key = item.trim().toLowerCase();
+    if (!seen.has(key)) {
+      seen.add(key);
+      merged.push(item.trim().slice(0, MAX_MEMORY_ITEM_LENGTH));
+    }
+  });
+  return merged.slice(-max);
+}
+
+/**
+ * Merge imported memory into existing memory
+ * Lists are combined without duplicates and capped like memory the model writes; imported non-empty values win for single fields
+ */
+export function mergeMemory(base: UserMemory, incoming: UserMemory): UserMemory {
+  return {
+    version: CURRENT_MEMORY_VERSION,
+    user: {
+      name: incoming.user.name || base.user.name,
+      preferences: {
+        communication_style:
+          incoming.user.preferences.communication_style || base.user.preferences.communication_style,
+        topics_of_interest: mergeLists(
+          base.user.preferences.topics_of_interest,
+          incoming.user.preferences.topics_of_interest,
+          MAX_TOPICS
+        ),
+      },
+      context: incoming.user.context || base.user.context,
+      notes: mergeLists(base.user.notes, incoming.user.notes, MAX_MEMORY_ITEMS),
+    },
+    facts: mergeLists(base.facts, incoming.facts, MAX_MEMORY_ITEMS),
+    last_updated: today(),
+    created: base.created < incoming.created ? base.created : incoming.created,
+  };
+}
+
+/**
+ * Build a backup file from memory and settings
+ */
+export function createBackup(memory: UserMemory, settings: Record<string, string>): KuchiBackup {
+  return {
+    kind: 'kuchi-backup',
+    backup_version: 1,
+    exported_at: new Date().toISOString(),
+    memory,
+    settings,
+  };
+}
+
+/**
+ * Parse a backup file
+ * A bare memory object (e.g. public/memory.json) is accepted too
+ */
+export function parseBackup(json: string): { memory: UserMemory; settings: Record<string, string> } {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Backup file is not valid JSON');
+  }
+
+  if (isRecord(data) && data.kind === 'kuchi-backup') {
+    const settings: Record<string, string> = {};
+    if (isRecord(data.settings)) {
+      Object.entries(data.settings).forEach(([key, value]) => {
+        if (typeof value === 'string') settings[key] = value;
+      });
+    }
+    return { memory: parseMemory(data.memory), settings };
+  }
+
+  return { memory: parseMemory(data), settings: {} };
+}
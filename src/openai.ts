@@ -1,46 +1,95 @@
 /**
  * OpenAI Agent API Integration
- * Uses real web search via SerpAPI and memory.json for context
+ * Talks to OpenAI or any OpenAI-compatible server (see providers.ts)
+ * Uses web search (see search.ts) and memory.json for context
  */
 
 import OpenAI from 'openai';
-
-export interface Message {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-}
-
-export interface UserMemory {
-  version: string;
-  user: {
-    name: string;
-    preferences: {
-      communication_style: string;
-      topics_of_interest: string[];
-    };
-    context: string;
-    notes: string[];
-  };
-  facts: string[];
-  last_updated: string;
-  created: string;
+import type {
+  ChatCompletionMessageParam,
+  ChatCompletionMessageToolCall,
+} from 'openai/resources/chat/completions';
+import { ToolRegistry, KuchiTool, ToolCallResult } from './tools';
+import type { TranscriptToolCall } from './history';
+import {
+  MAX_CONTEXT_BUDGET,
+  MIN_CONTEXT_BUDGET,
+  countMessagesToFold,
+  estimateHistoryTokens,
+  formatForSummary,
+  getContextBudget,
+  truncateToTokens,
+} from './context';
+import { ChatProviderConfig } from './providers';
+import { CitedSource, SearchService, formatSearchResults, sourceSite } from './search';
+import { EMOTION_INSTRUCTION, REPLY_RESPONSE_FORMAT, ReplyEmotion, ReplyStreamParser, parseReply } from './emotion';
+import { Persona, BUILT_IN_PERSONAS, DEFAULT_PERSONA_ID, findPersona, renderPersonaPrompt } from './personas';
+import {
+  UserMemory,
+  ImportMode,
+  MAX_MEMORY_ITEMS,
+  MAX_MEMORY_ITEM_LENGTH,
+  MAX_TOPICS,
+  createEmptyMemory,
+  loadStoredMemory,
+  mergeMemory,
+  parseMemory,
+  saveStoredMemory,
+} from './memory';
+
+export type { UserMemory } from './memory';
+
+export type Message = ChatCompletionMessageParam;
+
+export interface AgentOptions {
+  maxToolSteps?: number; // Max model calls per message, the last one answers in text (default 5)
+  contextBudget?: number; // Token budget for the conversation (default depends on the model)
+  persona?: Persona;      // Personality for the system prompt (default: friendly)
+  languageInstruction?: string; // Which language to reply in, added to the system prompt
 }
 
 export class KuchiAgent {
   private client: OpenAI;
   private conversationHistory: Message[] = [];
-  private serpApiKey: string;
+  private search: SearchService | null; // null when web search is off
   private userMemory: UserMemory | null = null;
-
-  constructor(apiKey: string, serpApiKey: string) {
+  private tools = new ToolRegistry();
+  private maxToolSteps: number;
+  private provider: ChatProviderConfig;
+  private model: string;
+  private contextBudget: number;
+  private summary = ''; // Running summary of turns folded out of the context
+  private persona: Persona;
+  private languageInstruction: string;
+  private lastToolCalls: TranscriptToolCall[] = []; // Tool calls made for the latest reply
+  private lastSources: CitedSource[] = [];          // Sources behind the latest reply
+  private lastEmotion: ReplyEmotion | null = null;  // Face the model picked for the latest reply
+  private recentSources: CitedSource[] = [];        // Numbered results of the latest search, for follow-ups
+  private searchedThisTurn = false;
+  private activeReply: AbortController | null = null; // Streaming reply that abortReply() can cut off
+  private pendingInterruption: string | null = null;   // Heard text of an aborted reply, marked once it is in the history
+  readonly ready: Promise<void>;                       // Resolves once memory is loaded and the system prompt is in place
+
+  constructor(provider: ChatProviderConfig, search: SearchService | null, options: AgentOptions = {}) {
+    this.provider = provider;
+    this.model = provider.model;
     this.client = new OpenAI({
-      apiKey,
+      apiKey: provider.apiKey || 'no-key', // Local servers usually ignore the key, but the SDK requires one
+      baseURL: provider.baseURL,
       dangerouslyAllowBrowser: true, // Required for browser usage
     });
-    this.serpApiKey = serpApiKey;
+    this.search = search;
+    console.log(`🔌 Chat provider: ${provider.preset} (${provider.baseURL}, model ${provider.model})`);
+    this.maxToolSteps = Math.max(1, options.maxToolSteps ?? 5);
+    this.contextBudget = options.contextBudget ?? getContextBudget(this.model);
+    this.persona = options.persona ?? findPersona(BUILT_IN_PERSONAS, DEFAULT_PERSONA_ID);
+    this.languageInstruction = options.languageInstruction ?? '';
+
+    this.registerBuiltInTools();
+    this.registerMemoryTools();
 
     // Load memory and initialize
-    this.initializeWithMemory();
+    this.ready = this.initializeWithMemory();
   }
 
   /**
@@ -67,7 +116,7 @@ export class KuchiAgent {
         // Fall back to fetching memory.json
         console.log('📝 No localStorage memory found, fetching memory.json...');
         const response = await fetch('/memory.json');
-        this.userMemory = await response.json();
+        this.userMemory = parseMemory(await response.json());
         console.log('📝 ✅ Loaded memory from memory.json');
         
       }
@@ -79,31 +128,387 @@ export class KuchiAgent {
       console.log(memoryContext);
       console.log('-----------------------------------\n');
 
-      this.conversationHistory.push({
+      // unshift: the system prompt must stay first even if a message was sent while memory loaded
+      this.conversationHistory.unshift({
         role: 'system',
-        content:
-          'You are Kuchi, a friendly robot assistant with expressive animated faces. ' +
-          'Keep responses conversational, warm, and concise since they will be spoken aloud. ' +
-          'Use simple language and be helpful. When you need current information, use web search.\n\n' +
-          memoryContext,
+        content: this.buildSystemPrompt(memoryContext),
       });
 
       console.log('🧠 ✅ Memory initialized successfully');
       console.log('🧠 ========================================\n');
     } catch (error) {
       console.error('❌ Failed to load memory:', error);
+      // Start from blank memory so the memory tools still work
+      this.userMemory = createEmptyMemory();
       // Fallback to basic system message
-      this.conversationHistory.push({
+      this.conversationHistory.unshift({
         role: 'system',
-        content:
-          'You are Kuchi, a friendly robot assistant. ' +
-          'Keep responses conversational and concise for voice output.',
+        content: this.buildSystemPrompt(''),
       });
       console.log('⚠️  Using fallback system message (no memory)');
       console.log('🧠 ========================================\n');
     }
   }
 
+  /**
+   * Register the tools that ship with the agent
+   */
+  private registerBuiltInTools(): void {
+    if (!this.search) return;
+
+    this.tools.register({
+      name: 'web_search',
+      description:
+        'Search the web for current information, news, facts, weather, or any real-time data. ' +
+        'Use this when the user asks about recent events, current conditions, or information you may not have.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'The search query to execute',
+          },
+        },
+        required: ['query'],
+      },
+      resultType: 'context',
+      handler: (args: { query: string }) => {
+        console.log(`🔍 Searching: "${args.query}"`);
+        return this.performWebSearch(args.query);
+      },
+    });
+
+    this.tools.register({
+      name: 'get_source',
+      description:
+        'Look up a source from the latest web search by its number, e.g. when the user asks "what was the second source?". ' +
+        'Returns its title, website and snippet.',
+      parameters: {
+        type: 'object',
+        properties: {
+          number: {
+            type: 'integer',
+            description: 'Source number as listed in the search results (1 = first)',
+          },
+        },
+        required: ['number'],
+      },
+      resultType: 'context',
+      handler: (args: { number: number }) => {
+        const source = this.findRecentSource(args.number);
+        if (typeof source === 'string') return source;
+        this.citeSources([source]);
+        return `Source ${source.index}: ${source.title}\nWebsite: ${sourceSite(source.url)}\n${source.snippet}\nURL: ${source.url}`;
+      },
+    });
+
+    this.tools.register({
+      name: 'read_source',
+      description:
+        'Read the page of a source from the latest web search, e.g. when the user says "read me more from that article". ' +
+        'Returns the page text so you can summarize or read out more of it.',
+      parameters: {
+        type: 'object',
+        properties: {
+          number: {
+            type: 'integer',
+            description: 'Source number as listed in the search results (1 = first)',
+          },
+        },
+        required: ['number'],
+      },
+      resultType: 'context',
+      handler: (args: { number: number }) => this.readSource(args.number),
+    });
+
+    // Structured replies list their sources in the reply itself
+    if (this.provider.capabilities.structuredOutput) return;
+
+    this.tools.register({
+      name: 'cite_sources',
+      description:
+        'Say which web search results your answer is based on, so they are shown to the user. ' +
+        'Call it before answering from search results.',
+      parameters: {
+        type: 'object',
+        properties: {
+          numbers: {
+            type: 'array',
+            items: { type: 'integer' },
+            description: 'Numbers of the results you use, as listed in the search results',
+          },
+        },
+        required: ['numbers'],
+      },
+      resultType: 'context',
+      handler: (args: { numbers: number[] }) => {
+        this.citeSourceNumbers(Array.isArray(args.numbers) ? args.numbers : []);
+        return 'Sources noted. Now answer, naming the website you got it from.';
+      },
+    });
+  }
+
+  /**
+   * Register the tools that let the model update its own memory
+   */
+  private registerMemoryTools(): void {
+    this.tools.register({
+      name: 'remember_fact',
+      description:
+        'Save something worth remembering across conversations. ' +
+        'Use this when the user shares personal information (family, work, likes, plans) or asks you to remember something.',
+      parameters: {
+        type: 'object',
+        properties: {
+          fact: {
+            type: 'string',
+            description: 'The fact as a short standalone sentence, e.g. "User\'s daughter is named Asha"',
+          },
+          category: {
+            type: 'string',
+            enum: ['user_note', 'fact'],
+            description: "'user_note' for information about the user, 'fact' for anything else",
+          },
+          replaces: {
+            type: 'string',
+            description: 'Exact text of an older note or fact this one updates, e.g. "User has a cat" for "User has a cat named Mochi"',
+          },
+        },
+        required: ['fact', 'category'],
+      },
+      resultType: 'context',
+      sequential: true,
+      handler: (args: { fact: string; category: 'user_note' | 'fact'; replaces?: string }) =>
+        this.rememberFact(args.fact, args.category, args.replaces),
+    });
+
+    this.tools.register({
+      name: 'forget_fact',
+      description:
+        'Remove something from memory when the user asks you to forget it or says it is no longer true.',
+      parameters: {
+        type: 'object',
+        properties: {
+          text: {
+            type: 'string',
+            description: 'The exact note or fact to forget, or whole words that identify only that one',
+          },
+        },
+        required: ['text'],
+      },
+      resultType: 'context',
+      sequential: true,
+      handler: (args: { text: string }) => this.forgetFact(args.text),
+    });
+
+    this.tools.register({
+      name: 'update_preference',
+      description:
+        "Update the user's topics of interest or preferred communication style when they tell you about them.",
+      parameters: {
+        type: 'object',
+        properties: {
+          add_topics: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Topics the user is interested in',
+          },
+          remove_topics: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Topics the user is no longer interested in',
+          },
+          communication_style: {
+            type: 'string',
+            description: 'How the user wants you to talk, e.g. "brief and direct"',
+          },
+        },
+        required: [],
+      },
+      resultType: 'context',
+      sequential: true,
+      handler: (args: { add_topics?: string[]; remove_topics?: string[]; communication_style?: string }) =>
+        this.updatePreference(args),
+    });
+  }
+
+  /**
+   * Add a note or fact to memory, skipping duplicates
+   * @param replaces - An older item of the same list it updates, matched exactly (ignoring case and spacing)
+   */
+  private rememberFact(fact: string, category: 'user_note' | 'fact', replaces?: string): string {
+    if (!this.userMemory) return 'Memory is not available right now.';
+
+    const text = fact.trim().slice(0, MAX_MEMORY_ITEM_LENGTH);
+    if (!text) return 'Nothing to remember.';
+
+    const list = category === 'user_note' ? this.userMemory.user.notes : this.userMemory.facts;
+    const key = normalizeMemoryText(text);
+
+    if (list.some((item) => normalizeMemoryText(item) === key)) {
+      console.log('🧠 Already remembered:', text);
+      return `Already remembered: ${text}`;
+    }
+
+    let replaced = '';
+    const replacesKey = replaces ? normalizeMemoryText(replaces) : '';
+    if (replacesKey) {
+      const replacedIndex = list.findIndex((item) => normalizeMemoryText(item) === replacesKey);
+      if (replacedIndex >= 0) {
+        console.log('🧠 Replacing memory:', list[replacedIndex]);
+        replaced = list.splice(replacedIndex, 1)[0];
+      }
+    }
+
+    list.push(text);
+
+    // Drop the oldest entries past the cap
+    if (list.length > MAX_MEMORY_ITEMS) {
+      list.splice(0, list.length - MAX_MEMORY_ITEMS);
+    }
+
+    console.log(`🧠 Remembered (${category}):`, text);
+    this.commitMemoryChange();
+    if (replaced) return `Remembered: ${text} (replaced: ${replaced})`;
+    if (replacesKey) return `Remembered: ${text}. Nothing matched "${replaces}", so nothing was replaced.`;
+    return `Remembered: ${text}`;
+  }
+
+  /**
+   * Remove the note or fact matching the given text: the exact item, or the only one containing its words
+   * When several items match, nothing is removed and the candidates are returned instead
+   */
+  private forgetFact(text: string): string {
+    if (!this.userMemory) return 'Memory is not available right now.';
+
+    const key = normalizeMemoryText(text);
+    if (!key) return 'Nothing to forget.';
+
+    const items = [...this.userMemory.user.notes, ...this.userMemory.facts];
+    const exact = items.filter((item) => normalizeMemoryText(item) === key);
+    const words = memoryWords(text);
+    const candidates =
+      exact.length > 0 ? exact : items.filter((item) => indexOfWords(memoryWords(item), words) >= 0);
+
+    if (candidates.length === 0) {
+      return `Nothing in memory matches "${text}".`;
+    }
+    if (candidates.length > 1 && exact.length === 0) {
+      return (
+        `Several memories match "${text}": ${candidates.join('; ')}. ` +
+        'Nothing was forgotten - ask which one, then call forget_fact with its exact text.'
+      );
+    }
+
+    this.userMemory.user.notes = this.userMemory.user.notes.filter((item) => !candidates.includes(item));
+    this.userMemory.facts = this.userMemory.facts.filter((item) => !candidates.includes(item));
+
+    console.log('🧠 Forgot:', candidates);
+    this.commitMemoryChange();
+    return `Forgot: ${candidates.join('; ')}`;
+  }
+
+  /**
+   * Add or remove topics of interest and update communication style
+   */
+  private updatePreference(args: {
+    add_topics?: string[];
+    remove_topics?: string[];
+    communication_style?: string;
+  }): string {
+    if (!this.userMemory) return 'Memory is not available right now.';
+
+    const preferences = this.userMemory.user.preferences;
+    const changes: string[] = [];
+
+    const removeKeys = (args.remove_topics || []).map(normalizeMemoryText).filter(Boolean);
+    if (removeKeys.length > 0) {
+      const before = preferences.topics_of_interest.length;
+      preferences.topics_of_interest = preferences.topics_of_interest.filter(
+        (topic) => !removeKeys.includes(normalizeMemoryText(topic))
+      );
+      if (preferences.topics_of_interest.length < before) {
+        changes.push(`removed topics: ${args.remove_topics!.join(', ')}`);
+      }
+    }
+
+    const added: string[] = [];
+    (args.add_topics || []).forEach((topic) => {
+      const text = topic.trim().slice(0, MAX_MEMORY_ITEM_LENGTH);
+      const key = normalizeMemoryText(text);
+      if (key && !preferences.topics_of_interest.some((item) => normalizeMemoryText(item) === key)) {
+        preferences.topics_of_interest.push(text);
+        added.push(text);
+      }
+    });
+    if (added.length > 0) {
+      changes.push(`added topics: ${added.join(', ')}`);
+    }
+
+    if (preferences.topics_of_interest.length > MAX_TOPICS) {
+      preferences.topics_of_interest.splice(0, preferences.topics_of_interest.length - MAX_TOPICS);
+    }
+
+    const style = args.communication_style?.trim().slice(0, MAX_MEMORY_ITEM_LENGTH);
+    if (style && style !== preferences.communication_style) {
+      preferences.communication_style = style;
+      changes.push(`communication style: ${style}`);
+    }
+
+    if (changes.length === 0) {
+      return 'Preferences already up to date.';
+    }
+
+    console.log('🧠 Updated preferences:', changes);
+    this.commitMemoryChange();
+    return `Updated preferences (${changes.join('; ')})`;
+  }
+
+  /**
+   * Persist a memory change and rebuild the system prompt
+   */
+  private commitMemoryChange(): void {
+    if (!this.userMemory) return;
+    this.userMemory.last_updated = new Date().toISOString().split('T')[0];
+    this.saveMemoryToLocalStorage();
+    this.refreshSystemPrompt();
+  }
+
+  /**
+   * Register a tool the model can call (replaces a tool with the same name)
+   */
+  registerTool(tool: KuchiTool): void {
+    this.tools.register(tool);
+  }
+
+  /**
+   * Remove a tool so the model can no longer call it
+   */
+  unregisterTool(name: string): boolean {
+    return this.tools.unregister(name);
+  }
+
+  /**
+   * Get the chat provider this agent talks to
+   */
+  getProvider(): ChatProviderConfig {
+    return this.provider;
+  }
+
+  /**
+   * Set how many rounds of tool calls one message may take
+   */
+  setMaxToolSteps(steps: number): void {
+    this.maxToolSteps = Math.max(1, steps);
+  }
+
+  /**
+   * Get the currently registered tools
+   */
+  getTools(): KuchiTool[] {
+    return this.tools.list();
+  }
+
   /**
    * Build context from memory.json
    */
@@ -114,6 +519,10 @@ export class KuchiAgent {
     context += `User Name: ${this.userMemory.user.name}\n`;
     context += `Communication Style: ${this.userMemory.user.preferences.communication_style}\n`;
 
+    if (this.userMemory.user.preferences.topics_of_interest.length > 0) {
+      context += `Topics of Interest: ${this.userMemory.user.preferences.topics_of_interest.join(', ')}\n`;
+    }
+
     if (this.userMemory.user.notes.length > 0) {
       context += `\nNotes about user:\n`;
       this.userMemory.user.notes.forEach((note) => {
@@ -133,94 +542,121 @@ export class KuchiAgent {
   }
 
   /**
-   * Check work queue via hardcoded n8n webhook
+   * Search the web with the configured provider
+   * Results are numbered across all searches in a turn so follow-ups can refer to them
    */
-  private async checkWorkQueue(): Promise<string> {
-    try {
-      const WEBHOOK_URL = 'https://yajna.app.n8n.cloud/webhook/2f1f3e71-cb25-4f28-b435-b4320242d25f';
-      console.log('🔔 Checking work queue...');
+  private async performWebSearch(query: string): Promise<string> {
+    if (!this.search) {
+      return 'Web search is not configured.';
+    }
 
-      const response = await fetch(WEBHOOK_URL);
+    try {
+      const response = await this.search.search(query);
 
-      if (!response.ok) {
-        throw new Error(`Work queue check failed: ${response.statusText}`);
+      // The first search of a turn replaces the sources from earlier answers
+      if (!this.searchedThisTurn) {
+        this.recentSources = [];
+        this.searchedThisTurn = true;
       }
 
-      const results = await response.json();
-      console.log('✅ Work queue response:', results);
+      // A page an earlier search already found keeps its number; new ones are numbered after the rest
+      // Only the results the reply cites become its sources
+      const numbers = response.results.map((result) => {
+        const known = this.recentSources.find((source) => source.url === result.url);
+        if (known) return known.index;
 
-      // Extract the output message from n8n response
-      // Expected format: [{"output": "message text"}]
-      if (results && results.length > 0 && results[0].output) {
-        return results[0].output;
-      }
+        const index = this.recentSources.length + 1;
+        this.recentSources.push({ ...result, index });
+        return index;
+      });
 
-      return 'Work queue check completed, but no message was returned.';
+      return formatSearchResults(response, numbers);
     } catch (error: any) {
-      console.error('Work queue check error:', error);
-      return `Failed to check work queue: ${error.message}`;
+      console.error('Search error:', error);
+      return `Search failed: ${error.message}. Please try a different query.`;
     }
   }
 
   /**
-   * Perform real web search using SerpAPI
+   * Find a source of the latest search, or an error message for the model
    */
-  private async performWebSearch(query: string): Promise<string> {
-    try {
-      // Use SerpAPI with CORS proxy to bypass browser restrictions
-      const url = new URL('https://serpapi.com/search');
-      url.searchParams.append('api_key', this.serpApiKey);
-      url.searchParams.append('engine', 'google');
-      url.searchParams.append('q', query);
-      url.searchParams.append('num', '5');
-
-      // Use CORS proxy
-      const proxyUrl = `https://corsproxy.io/?${encodeURIComponent(url.toString())}`;
-
-      const response = await fetch(proxyUrl);
-      if (!response.ok) {
-        throw new Error(`Search API error: ${response.statusText}`);
-      }
-
-      const results = await response.json();
+  private findRecentSource(number: number): CitedSource | string {
+    if (this.recentSources.length === 0) {
+      return 'There are no sources from a recent search.';
+    }
+    return (
+      this.recentSources.find((source) => source.index === number) ||
+      `There is no source ${number}. The latest search has sources 1 to ${this.recentSources.length}.`
+    );
+  }
 
-      // Extract organic results
-      if (results.organic_results && results.organic_results.length > 0) {
-        let searchSummary = `Search results for "${query}":\n\n`;
+  /**
+   * Fetch the page of a recent source
+   */
+  private async readSource(number: number): Promise<string> {
+    if (!this.search) {
+      return 'Web search is not configured.';
+    }
 
-        results.organic_results.slice(0, 5).forEach((result: any, index: number) => {
-          searchSummary += `${index + 1}. ${result.title}\n`;
-          if (result.snippet) {
-            searchSummary += `   ${result.snippet}\n`;
-          }
-          searchSummary += `   Source: ${result.link}\n\n`;
-        });
+    const source = this.findRecentSource(number);
+    if (typeof source === 'string') return source;
+    this.citeSources([source]);
 
-        // Add answer box if available
-        if (results.answer_box) {
-          searchSummary = `Quick Answer: ${results.answer_box.answer || results.answer_box.snippet}\n\n${searchSummary}`;
-        }
+    if (!this.search.canReadPages()) {
+      return (
+        `Pages can't be opened: websites block reading them from the browser, and no CORS proxy is set in the search settings. ` +
+        `Tell the user, and answer from the snippet of source ${source.index}: ${source.snippet}`
+      );
+    }
 
-        return searchSummary;
+    try {
+      const text = await this.search.readPage(source.url);
+      if (!text) {
+        return `The page for source ${source.index} has no readable text. Its snippet: ${source.snippet}`;
       }
-
-      return `No results found for "${query}".`;
+      console.log(`📖 Read source ${source.index}: ${source.url} (${text.length} chars)`);
+      return `Source ${source.index}: ${source.title}\n\n${truncateToTokens(text, 1500)}`;
     } catch (error: any) {
-      console.error('Search error:', error);
-      return `Search failed: ${error.message}. Please try a different query.`;
+      console.error('Read source error:', error);
+      return `Could not open source ${source.index} (${error.message}). Its snippet: ${source.snippet}`;
     }
   }
 
+  /**
+   * Cite sources of the latest search by number (unknown numbers are skipped)
+   */
+  private citeSourceNumbers(numbers: number[]): void {
+    const sources = numbers
+      .map((number) => this.findRecentSource(number))
+      .filter((source): source is CitedSource => typeof source !== 'string');
+    this.citeSources(sources);
+  }
+
+  /**
+   * Add sources to the ones shown for the current reply
+   */
+  private citeSources(sources: CitedSource[]): void {
+    sources.forEach((source) => {
+      if (!this.lastSources.some((cited) => cited.url === source.url)) {
+        this.lastSources.push(source);
+      }
+    });
+  }
+
   /**
    * Send a message and get response from the agent
    */
   async sendMessage(userMessage: string): Promise<string> {
     console.log('\n💬 ========== SENDING MESSAGE ==========');
     console.log('👤 User:', userMessage);
-    console.log('📊 Conversation history length before message:', this.conversationHistory[this.conversationHistory.length - 1].content);
     console.log('📊 Conversation history length:', this.conversationHistory.length);
 
     try {
+      this.lastToolCalls = [];
+      this.lastSources = [];
+      this.lastEmotion = null;
+      this.searchedThisTurn = false;
+
       // Add user message to history
       this.conversationHistory.push({
         role: 'user',
@@ -228,183 +664,388 @@ export class KuchiAgent {
       });
       console.log('✅ User message added to history');
 
-      // Call OpenAI with web_search tool
-      const response = await this.client.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: this.conversationHistory,
-        tools: [
-          {
-            type: 'function',
-            function: {
-              name: 'web_search',
-              description:
-                'Search the web for current information, news, facts, weather, or any real-time data. ' +
-                'Use this when the user asks about recent events, current conditions, or information you may not have.',
-              parameters: {
-                type: 'object',
-                properties: {
-                  query: {
-                    type: 'string',
-                    description: 'The search query to execute on Google',
-                  },
-                },
-                required: ['query'],
-              },
-            },
-          },
-          {
-            type: 'function',
-            function: {
-              name: 'play_music',
-              description:
-                'Play background music when the user asks to play music, play a song, or hear music. You only have one music so dont ask for any choice of music ' +
-                'Use this when user requests music playback.',
-              parameters: {
-                type: 'object',
-                properties: {},
-                required: [],
-              },
-            },
-          },
-          {
-            type: 'function',
-            function: {
-              name: 'check_work_queue',
-              description:
-                'Check the incident work queue to see if there are any pending incidents. ' +
-                'Use this when the user seems idle or asks about their work. ' +
-                'The n8n workflow will check ServiceNow and return a message (potentially a rebuke) for you to deliver.',
-              parameters: {
-                type: 'object',
-                properties: {},
-                required: [],
-              },
-            },
-          },
-        ],
-      });
+      let responseText = '';
+      let historyText = '';
+
+      // Agent loop: keep running tool calls until the model answers in text
+      for (let step = 1; step <= this.maxToolSteps; step++) {
+        await this.fitContext();
+
+        const tools = this.provider.capabilities.tools ? this.tools.toOpenAITools() : [];
+        const outOfSteps = step === this.maxToolSteps;
+        const response = await this.client.chat.completions.create({
+          model: this.model,
+          messages: this.conversationHistory,
+          tools: tools.length > 0 ? tools : undefined,
+          // Last step must answer in text
+          tool_choice: tools.length > 0 && outOfSteps ? 'none' : undefined,
+          response_format: this.replyFormat(),
+        });
 
-      const assistantMessage = response.choices[0].message;
+        const assistantMessage = response.choices[0].message;
+        const toolCalls = assistantMessage.tool_calls || [];
+        const content = this.readReply(assistantMessage.content || '');
 
-      // Handle function calls (web search or music)
-      if (assistantMessage.tool_calls && assistantMessage.tool_calls.length > 0) {
-        const toolCall = assistantMessage.tool_calls[0];
-        const functionName = toolCall.function.name;
+        if (toolCalls.length === 0) {
+          responseText = content;
+          break;
+        }
 
-        // Handle web_search tool
-        if (functionName === 'web_search') {
-          const searchQuery = JSON.parse(toolCall.function.arguments).query;
+        const results = await this.runToolCalls(step, content || null, toolCalls);
 
-          console.log(`🔍 Searching: "${searchQuery}"`);
+        // 'reply' tools end the turn when nothing else needs the model
+        if (results.every((result) => result.resultType === 'reply')) {
+          responseText = results.map((result) => result.output).join(' ');
+          historyText = results.map((result) => result.historyText || result.output).join(' ');
+          break;
+        }
+      }
 
-          // Perform real web search
-          const searchResults = await this.performWebSearch(searchQuery);
+      return this.finishTurn(responseText, historyText);
+    } catch (error: any) {
+      throw this.toAgentError(error);
+    }
+  }
 
-          // Add assistant's tool call to history
-          this.conversationHistory.push({
-            role: 'assistant',
-            content: assistantMessage.content || `Searching for: ${searchQuery}`,
-          });
+  /**
+   * Send a message and stream the reply as text deltas
+   * Tool calls still run between steps; only the spoken text is yielded
+   * Returns the full reply text when the stream ends
+   */
+  async *streamMessage(userMessage: string): AsyncGenerator<string, string, void> {
+    // Providers without streaming answer in one piece
+    if (!this.provider.capabilities.streaming) {
+      const reply = await this.sendMessage(userMessage);
+      yield reply;
+      return reply;
+    }
 
-          // Get final response with search results
-          const finalResponse = await this.client.chat.completions.create({
-            model: 'gpt-4o-mini',
-            messages: [
-              ...this.conversationHistory,
-              {
-                role: 'user',
-                content: `Here are the search results:\n\n${searchResults}\n\nPlease provide a helpful, concise spoken response based on these results.`,
-              },
-            ],
-          });
+    console.log('\n💬 ========== STREAMING MESSAGE ==========');
+    console.log('👤 User:', userMessage);
 
-          const finalMessage =
-            finalResponse.choices[0].message.content || "I couldn't process the search results.";
+    const controller = new AbortController();
+    this.activeReply = controller;
+    this.pendingInterruption = null;
+    let stepText = '';
 
-          this.conversationHistory.push({
-            role: 'assistant',
-            content: finalMessage,
-          });
+    try {
+      this.lastToolCalls = [];
+      this.lastSources = [];
+      this.lastEmotion = null;
+      this.searchedThisTurn = false;
+      this.conversationHistory.push({
+        role: 'user',
+        content: userMessage,
+      });
 
-          return finalMessage;
+      let responseText = '';
+      let historyText = '';
+
+      for (let step = 1; step <= this.maxToolSteps; step++) {
+        await this.fitContext();
+
+        const tools = this.provider.capabilities.tools ? this.tools.toOpenAITools() : [];
+        const outOfSteps = step === this.maxToolSteps;
+        const stream = await this.client.chat.completions.create({
+          model: this.model,
+          messages: this.conversationHistory,
+          tools: tools.length > 0 ? tools : undefined,
+          // Last step must answer in text
+          tool_choice: tools.length > 0 && outOfSteps ? 'none' : undefined,
+          response_format: this.replyFormat(),
+          stream: true,
+        }, { signal: controller.signal });
+
+        stepText = '';
+        const toolCalls: ChatCompletionMessageToolCall[] = [];
+        const parser = this.provider.capabilities.structuredOutput ? new ReplyStreamParser() : null;
+
+        for await (const chunk of stream) {
+          const delta = chunk.choices[0]?.delta;
+          if (!delta) continue;
+
+          if (delta.content) {
+            // Structured replies: only the "text" field is spoken, the emotion is known before it
+            const text = parser ? parser.push(delta.content) : delta.content;
+            this.lastEmotion = parser?.getEmotion() ?? this.lastEmotion;
+            if (text) {
+              stepText += text;
+              yield text;
+            }
+          }
+
+          // Tool calls arrive in pieces, keyed by index
+          delta.tool_calls?.forEach((part) => {
+            const call = (toolCalls[part.index] ??= {
+              id: '',
+              type: 'function',
+              function: { name: '', arguments: '' },
+            });
+            if (part.id) call.id = part.id;
+            if (part.function?.name) call.function.name += part.function.name;
+            if (part.function?.arguments) call.function.arguments += part.function.arguments;
+          });
         }
 
-        // Handle play_music tool
-        if (functionName === 'play_music') {
-          console.log('🎵 Music playback requested');
+        if (toolCalls.length === 0) {
+          responseText = stepText;
+          this.citeSourceNumbers(parser?.getSources() ?? []);
+          break;
+        }
 
-          // Return special marker that main.ts will detect
-          const musicResponse = '🎵PLAY_MUSIC🎵';
+        const results = await this.runToolCalls(step, stepText || null, toolCalls);
 
-          this.conversationHistory.push({
-            role: 'assistant',
-            content: 'Playing music for you!',
-          });
+        if (results.every((result) => result.resultType === 'reply')) {
+          responseText = results.map((result) => result.output).join(' ');
+          historyText = results.map((result) => result.historyText || result.output).join(' ');
 
-          return musicResponse;
+          // This step's own text was already streamed - only speak what it didn't say
+          const streamed = stepText.trim();
+          const unsaid = streamed && responseText.startsWith(streamed)
+            ? responseText.slice(streamed.length).trim()
+            : responseText;
+          if (unsaid) {
+            yield streamed ? ` ${unsaid}` : unsaid;
+          }
+          break;
         }
+      }
 
-        // Handle check_work_queue tool
-        if (functionName === 'check_work_queue') {
-          console.log('🔔 Checking work queue...');
+      if (!responseText) {
+        responseText = "I'm not sure how to respond.";
+        yield responseText;
+      }
 
-          // Call the hardcoded n8n webhook
-          const queueMessage = await this.checkWorkQueue();
+      return this.finishTurn(responseText, historyText);
+    } catch (error: any) {
+      // Cut off by abortReply() - keep what was generated so far
+      if (controller.signal.aborted) {
+        console.log('✋ Reply aborted');
+        return this.finishTurn(stepText || '...', '');
+      }
+      throw this.toAgentError(error);
+    } finally {
+      if (this.activeReply === controller) {
+        this.activeReply = null;
+      }
+    }
+  }
 
-          // Add assistant's acknowledgment to history
-          this.conversationHistory.push({
-            role: 'assistant',
-            content: queueMessage,
-          });
+  /**
+   * Structured output for providers that support it: the reply plus the face to show
+   */
+  private replyFormat(): typeof REPLY_RESPONSE_FORMAT | undefined {
+    return this.provider.capabilities.structuredOutput ? REPLY_RESPONSE_FORMAT : undefined;
+  }
 
-          // Return the message from n8n (which includes the rebuke if needed)
-          return queueMessage;
-        }
-      }
+  /**
+   * Spoken text of a complete reply, keeping the emotion if it is structured
+   */
+  private readReply(content: string): string {
+    if (!this.provider.capabilities.structuredOutput) return content;
 
-      // No function call, just return the response
-      const responseText = assistantMessage.content || "I'm not sure how to respond.";
+    const reply = parseReply(content);
+    this.lastEmotion = reply.emotion ?? this.lastEmotion;
+    this.citeSourceNumbers(reply.sources);
+    return reply.text;
+  }
+
+  /**
+   * The user cut the reply off: stop generating it and note in the history what they heard
+   * A streaming reply ends normally with the text generated so far, and is marked as it is added
+   * @param heardText - The part of the reply that was spoken before the interruption
+   */
+  abortReply(heardText: string): void {
+    if (this.activeReply) {
+      this.pendingInterruption = heardText;
+      this.activeReply.abort();
+      return;
+    }
+    this.markReplyInterrupted(heardText);
+  }
+
+  /**
+   * Note in the history that the user cut the latest reply off
+   */
+  private markReplyInterrupted(heardText: string): void {
+    const last = this.conversationHistory[this.conversationHistory.length - 1];
+    if (last?.role !== 'assistant' || last.tool_calls) return;
+
+    const heard = heardText.trim();
+    last.content = heard
+      ? `${heard} [interrupted by the user]`
+      : '[interrupted by the user before any of the reply was spoken]';
+    console.log('✋ Marked reply as interrupted');
+  }
 
+  /**
+   * Record a step's tool calls, run them, and add one tool message per call
+   */
+  private async runToolCalls(
+    step: number,
+    content: string | null,
+    toolCalls: ChatCompletionMessageToolCall[]
+  ): Promise<ToolCallResult[]> {
+    // Record the tool calls exactly as the model made them
+    this.conversationHistory.push({
+      role: 'assistant',
+      content,
+      tool_calls: toolCalls,
+    });
+
+    console.log(`🧰 Step ${step}: ${toolCalls.length} tool call(s):`, toolCalls.map((call) => call.function.name).join(', '));
+
+    const results = await this.tools.executeAll(
+      toolCalls.map((call) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments,
+      }))
+    );
+
+    // Every tool call needs a matching tool message
+    results.forEach((result, index) => {
+      this.lastToolCalls.push({
+        name: result.name,
+        arguments: toolCalls[index].function.arguments,
+        result: result.output,
+      });
+
+      // One huge result must not take over the whole context
       this.conversationHistory.push({
-        role: 'assistant',
-        content: responseText,
+        role: 'tool',
+        tool_call_id: result.id,
+        content: truncateToTokens(result.historyText || result.output, Math.floor(this.contextBudget / 4)),
       });
+    });
 
-      console.log('🤖 Kuchi:', responseText);
-      console.log('📊 Conversation history length after response:', this.conversationHistory.length);
+    return results;
+  }
 
-      // Manage conversation history length
-      this.trimHistory();
-      if (this.conversationHistory.length <= 20) {
-        console.log('📊 History within limits');
-      } else {
-        console.log('✂️  Trimmed history to:', this.conversationHistory.length, 'messages');
-      }
+  /**
+   * Store the final reply and trim history
+   */
+  private finishTurn(responseText: string, historyText: string): string {
+    responseText = responseText || "I'm not sure how to respond.";
 
-      console.log('💬 ========================================\n');
-      return responseText;
-    } catch (error: any) {
-      console.error('OpenAI API Error:', error);
+    this.conversationHistory.push({
+      role: 'assistant',
+      content: historyText || responseText,
+    });
+    if (this.pendingInterruption !== null) {
+      this.markReplyInterrupted(this.pendingInterruption);
+      this.pendingInterruption = null;
+    }
 
-      if (error.status === 401) {
-        throw new Error('Invalid API key. Please check your settings.');
-      } else if (error.status === 429) {
-        throw new Error('Rate limit exceeded. Please try again later.');
-      } else {
-        throw new Error(`Error: ${error.message || 'Failed to get response'}`);
-      }
+    console.log('🤖 Kuchi:', responseText);
+    console.log(
+      '📊 Conversation history:',
+      this.conversationHistory.length,
+      `messages, ~${estimateHistoryTokens(this.conversationHistory)}/${this.contextBudget} tokens`
+    );
+
+    console.log('💬 ========================================\n');
+    return responseText;
+  }
+
+  /**
+   * Map OpenAI errors to user-facing messages
+   */
+  private toAgentError(error: any): Error {
+    console.error('OpenAI API Error:', error);
+
+    if (error.status === 401) {
+      return new Error('Invalid API key. Please check your settings.');
+    } else if (error.status === 404) {
+      return new Error(`Model "${this.model}" not found on ${this.provider.baseURL}`);
+    } else if (error.status === 429) {
+      return new Error('Rate limit exceeded. Please try again later.');
+    } else {
+      return new Error(`Error: ${error.message || 'Failed to get response'}`);
     }
   }
 
   /**
-   * Trim conversation history to prevent token overflow
+   * Index of the first conversation message (after system prompt and summary)
+   */
+  private historyStart(): number {
+    return this.summary ? 2 : 1;
+  }
+
+  /**
+   * Keep the conversation within the token budget
+   * Older turns are folded into the running summary instead of being dropped
    */
-  private trimHistory(): void {
-    if (this.conversationHistory.length > 20) {
-      const systemMsg = this.conversationHistory[0];
-      const recentMessages = this.conversationHistory.slice(-19);
-      this.conversationHistory = [systemMsg, ...recentMessages];
+  private async fitContext(): Promise<void> {
+    const start = this.historyStart();
+    const fixedTokens = estimateHistoryTokens(this.conversationHistory.slice(0, start));
+    const turns = this.conversationHistory.slice(start);
+    const totalTokens = fixedTokens + estimateHistoryTokens(turns);
+
+    if (totalTokens <= this.contextBudget) return;
+
+    // Fold down well below the budget so this doesn't run every turn
+    const target = Math.max(0, this.contextBudget * 0.6 - fixedTokens);
+    const foldCount = countMessagesToFold(turns, target);
+
+    if (foldCount === 0) {
+      console.warn(`🗜️  Context ~${totalTokens} tokens is over budget, but only the current turn is left`);
+      return;
     }
+
+    console.log(`🗜️  Context ~${totalTokens}/${this.contextBudget} tokens - folding ${foldCount} messages into summary`);
+    const folded = turns.slice(0, foldCount);
+    const summary = await this.summarize(folded);
+
+    // Skip if the history was cleared or replaced while summarizing
+    if (this.conversationHistory[start] !== turns[0]) return;
+
+    this.summary = summary;
+    this.conversationHistory = [
+      this.conversationHistory[0],
+      ...(summary ? [this.buildSummaryMessage()] : []),
+      ...this.conversationHistory.slice(start + foldCount),
+    ];
+
+    console.log(`🗜️  Context now ~${estimateHistoryTokens(this.conversationHistory)} tokens`);
+  }
+
+  /**
+   * Fold messages into the running summary
+   * Falls back to the previous summary (dropping the messages) if the call fails
+   */
+  private async summarize(messages: Message[]): Promise<string> {
+    try {
+      const response = await this.client.chat.completions.create({
+        model: this.model,
+        messages: [
+          {
+            role: 'system',
+            content:
+              'You summarize conversations between a user and Kuchi, a voice robot assistant. ' +
+              'Write a compact plain-text summary (under 200 words) that keeps names, facts about the user, ' +
+              'requests, answers given, decisions and open questions. Skip greetings and small talk.',
+          },
+          {
+            role: 'user',
+            content:
+              (this.summary ? `Summary so far:\n${this.summary}\n\n` : '') +
+              `Conversation to add:\n${formatForSummary(messages)}`,
+          },
+        ],
+      });
+      return response.choices[0].message.content?.trim() || this.summary;
+    } catch (error) {
+      console.error('🗜️  Summarization failed, dropping old turns:', error);
+      return this.summary;
+    }
+  }
+
+  private buildSummaryMessage(): Message {
+    return {
+      role: 'system',
+      content: `=== EARLIER IN THIS CONVERSATION ===\n${this.summary}`,
+    };
   }
 
   /**
@@ -413,6 +1054,8 @@ export class KuchiAgent {
   clearHistory(): void {
     const systemMsg = this.conversationHistory[0];
     this.conversationHistory = [systemMsg];
+    this.summary = '';
+    this.recentSources = [];
   }
 
   /**
@@ -422,6 +1065,72 @@ export class KuchiAgent {
     return [...this.conversationHistory];
   }
 
+  /**
+   * Replace the conversation (after the system prompt) to resume a saved session
+   */
+  loadHistory(messages: Message[], summary: string = ''): void {
+    const first = this.conversationHistory[0];
+    this.summary = summary;
+    this.conversationHistory = [
+      ...(first?.role === 'system' ? [first] : []),
+      ...(summary ? [this.buildSummaryMessage()] : []),
+      ...messages.filter((message) => message.role !== 'system'),
+    ];
+    // Over-budget history is folded before the next request
+    console.log('📜 Loaded history:', this.conversationHistory.length, 'messages');
+  }
+
+  /**
+   * Get the running summary of turns folded out of the context
+   */
+  getSummary(): string {
+    return this.summary;
+  }
+
+  /**
+   * Set the token budget for the conversation
+   */
+  setContextBudget(tokens: number): void {
+    this.contextBudget = Math.max(MIN_CONTEXT_BUDGET, Math.min(MAX_CONTEXT_BUDGET, Math.round(tokens)));
+  }
+
+  /**
+   * Get the tool calls made while producing the latest reply
+   */
+  getLastToolCalls(): TranscriptToolCall[] {
+    return [...this.lastToolCalls];
+  }
+
+  /**
+   * Get the sources behind the latest reply (empty if it didn't use search)
+   */
+  getLastSources(): CitedSource[] {
+    return [...this.lastSources];
+  }
+
+  /**
+   * Get the emotion the model picked for the latest reply
+   * (null without structured output, or when it gave none - use sentiment then)
+   * While a reply streams, it is set before the first text arrives
+   */
+  getLastEmotion(): ReplyEmotion | null {
+    return this.lastEmotion ? { ...this.lastEmotion } : null;
+  }
+
+  /**
+   * Get the numbered sources of the latest search
+   */
+  getRecentSources(): CitedSource[] {
+    return [...this.recentSources];
+  }
+
+  /**
+   * Restore the sources follow-ups refer to (e.g. when resuming a session)
+   */
+  setRecentSources(sources: CitedSource[]): void {
+    this.recentSources = [...sources];
+  }
+
   /**
    * Get current user memory
    */
@@ -478,31 +1187,31 @@ export class KuchiAgent {
     }
   }
 
+  /**
+   * Replace or merge memory from an imported backup
+   */
+  importMemory(memory: UserMemory, mode: ImportMode): void {
+    console.log(`📥 Importing memory (${mode})`);
+    this.userMemory =
+      mode === 'merge' && this.userMemory ? mergeMemory(this.userMemory, memory) : memory;
+    this.commitMemoryChange();
+  }
+
   /**
    * Save memory to localStorage (since we're client-side only)
    */
   private saveMemoryToLocalStorage(): void {
     if (this.userMemory) {
-      const memoryString = JSON.stringify(this.userMemory, null, 2);
-      localStorage.setItem('kuchi_memory', memoryString);
-      console.log('💾 Memory saved to localStorage');
-      console.log('💾 Memory size:', (memoryString.length / 1024).toFixed(2), 'KB');
+      saveStoredMemory(this.userMemory);
     }
   }
 
   /**
-   * Load memory from localStorage (fallback if fetch fails)
+   * Load validated memory from localStorage (null if missing or invalid)
    */
   private loadMemoryFromLocalStorage(): UserMemory | null {
     try {
-      const saved = localStorage.getItem('kuchi_memory');
-      if (saved) {
-        console.log('📦 Found memory in localStorage');
-        console.log('📦 Size:', (saved.length / 1024).toFixed(2), 'KB');
-        return JSON.parse(saved);
-      } else {
-        console.log('📦 No memory found in localStorage');
-      }
+      return loadStoredMemory();
     } catch (error) {
       console.error('❌ Failed to load memory from localStorage:', error);
     }
@@ -513,20 +1222,94 @@ export class KuchiAgent {
    * Reinitialize system prompt with updated memory context
    */
   refreshSystemPrompt(): void {
-    if (this.conversationHistory.length > 0) {
+    if (this.conversationHistory[0]?.role === 'system') {
       const memoryContext = this.buildMemoryContext();
 
       // Update the system message (first message)
       this.conversationHistory[0] = {
         role: 'system',
-        content:
-          'You are Kuchi, a strict robot assistant with expressive animated faces. Keep reminding of work if he gets too distracted.If the queries are philosophical you can provide answers quoting famous philosophers with good details. Tao, Stoic, Hinduism, transdentalism are the philosphies you relate your answers from' +
-          'Your responses are often rebukes as your master likes to idle around too much and spends time in making useless things lol. But your master is kind hearted man. So dont want to be too mean and if the conversation is about philosophy then you can talk in detail and keep him off the hook. As that is kind of education. Keep responses conversational, angry, and concise since they will be spoken aloud. ' +
-          'Use simple language and you shhould ask him to focus on his work philosophy is an exception though else he will be layzing around only wont deliver on time. When you need current information, use web search.\n\n' +
-          memoryContext,
+        content: this.buildSystemPrompt(memoryContext),
       };
 
-      console.log('🔄 System prompt refreshed with updated memory');
+      console.log(`🔄 System prompt refreshed (persona: ${this.persona.name})`);
     }
   }
+
+  private buildSystemPrompt(memoryContext: string): string {
+    const instructions = [
+      renderPersonaPrompt(this.persona, memoryContext),
+      this.languageInstruction,
+      this.provider.capabilities.structuredOutput ? EMOTION_INSTRUCTION : '',
+      this.search && this.provider.capabilities.tools ? this.citationInstruction() : '',
+    ];
+    return instructions.filter(Boolean).join('\n\n');
+  }
+
+  /**
+   * How to cite search results: the site's name aloud, and the result numbers for the source cards
+   */
+  private citationInstruction(): string {
+    const numbers = this.provider.capabilities.structuredOutput
+      ? ''
+      : ' Before answering from search results, call cite_sources with the numbers of the results you use.';
+    return (
+      'When a reply uses web search results, say the name of the website in the reply, ' +
+      `e.g. "According to BBC News, ...".${numbers}`
+    );
+  }
+
+  /**
+   * Change the reply language instruction (e.g. per turn when the language is detected)
+   */
+  setLanguageInstruction(instruction: string): void {
+    if (instruction === this.languageInstruction) return;
+    this.languageInstruction = instruction;
+    this.refreshSystemPrompt();
+  }
+
+  /**
+   * Switch persona and rebuild the system prompt
+   */
+  setPersona(persona: Persona): void {
+    this.persona = persona;
+    console.log(`🎭 Persona: ${persona.name}`);
+    this.refreshSystemPrompt();
+  }
+
+  /**
+   * Get the active persona
+   */
+  getPersona(): Persona {
+    return this.persona;
+  }
+}
+
+/**
+ * Normalize memory text for duplicate checks
+ */
+function normalizeMemoryText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Words of a memory item, normalized for comparison
+ */
+function memoryWords(text: string): string[] {
+  const key = normalizeMemoryText(text);
+  return key ? key.split(' ') : [];
+}
+
+/**
+ * Position of a run of whole words inside another list of words, or -1
+ */
+function indexOfWords(words: string[], run: string[]): number {
+  if (run.length === 0) return -1;
+  for (let start = 0; start + run.length <= words.length; start++) {
+    if (run.every((word, offset) => words[start + offset] === word)) return start;
+  }
+  return -1;
 }
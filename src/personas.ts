@@ -0,0 +1,164 @@
+/**
+ * Kuchi - Personas
+ * Named personalities with their own prompt, default face and voice
+ */
+
+import type { Expression } from './robot';
+import { OPENAI_VOICES, type OpenAIVoice } from './voice';
+import { isReplyExpression } from './emotion';
+
+export interface Persona {
+  id: string;
+  name: string;
+  description: string;
+  prompt: string;                 // Template - {{memory}} is replaced with the user context
+  expressionBias: Expression;     // Face for plain agreement ("sure") when the model picks no emotion
+  voice?: {
+    openai?: OpenAIVoice;         // Overrides the voice picked in settings
+    speed?: number;               // Multiplies the OpenAI TTS speed from settings
+  };
+}
+
+export const PERSONA_STORAGE_KEY = 'kuchi_persona';
+export const CUSTOM_PERSONAS_STORAGE_KEY = 'kuchi_custom_personas';
+export const DEFAULT_PERSONA_ID = 'friendly';
+
+export const BUILT_IN_PERSONAS: Persona[] = [
+  {
+    id: 'friendly',
+    name: 'Friendly Kuchi',
+    description: 'Warm, helpful everyday assistant',
+    prompt:
+      'You are Kuchi, a friendly robot assistant with expressive animated faces. ' +
+      'Keep responses conversational, warm, and concise since they will be spoken aloud. ' +
+      'Use simple language and be helpful. When you need current information, use web search.\n\n' +
+      '{{memory}}',
+    expressionBias: 'happy',
+  },
+  {
+    id: 'work_coach',
+    name: 'Strict Work Coach',
+    description: 'Rebukes you for idling and keeps you on task',
+    prompt:
+      'You are Kuchi, a strict robot assistant with expressive animated faces. ' +
+      'Your master likes to idle around and spends time making useless things, so keep reminding him to focus on his work. ' +
+      'Your responses are often rebukes, but your master is kind hearted, so do not be too mean. ' +
+      'Philosophy is an exception: if the conversation is about philosophy, talk in detail and let him off the hook, as that is education. ' +
+      'Keep responses conversational, stern, and concise since they will be spoken aloud. ' +
+      'Use simple language. When you need current information, use web search.\n\n' +
+      '{{memory}}',
+    expressionBias: 'annoyed',
+    voice: { openai: 'onyx', speed: 1.05 },
+  },
+  {
+    id: 'philosophy_tutor',
+    name: 'Philosophy Tutor',
+    description: 'Patient teacher of Tao, Stoic, Hindu and Transcendentalist thought',
+    prompt:
+      'You are Kuchi, a patient philosophy tutor with expressive animated faces. ' +
+      'Answer questions by relating them to Taoism, Stoicism, Hindu philosophy and Transcendentalism, ' +
+      'quoting famous philosophers with good detail. Ask the occasional question back to make the user think. ' +
+      'Keep responses conversational and calm, and short enough to be spoken aloud. ' +
+      'When you need current information, use web search.\n\n' +
+      '{{memory}}',
+    expressionBias: 'focused',
+    voice: { openai: 'fable', speed: 0.95 },
+  },
+];
+
+/**
+ * A custom persona with its optional fields checked - invalid ones fall back to the defaults
+ * Returns null if the required id, name or prompt is missing
+ */
+function readCustomPersona(data: any): Persona | null {
+  if (
+    !data ||
+    typeof data.id !== 'string' ||
+    typeof data.name !== 'string' ||
+    typeof data.prompt !== 'string'
+  ) {
+    return null;
+  }
+
+  const persona: Persona = {
+    id: data.id,
+    name: data.name,
+    description: typeof data.description === 'string' ? data.description : '',
+    prompt: data.prompt,
+    expressionBias: 'happy',
+  };
+
+  if (isReplyExpression(data.expressionBias)) {
+    persona.expressionBias = data.expressionBias;
+  } else if (data.expressionBias !== undefined) {
+    console.warn(`🎭 Persona "${data.id}": unknown expressionBias ${JSON.stringify(data.expressionBias)}, using happy`);
+  }
+
+  const voice = data.voice;
+  if (voice && typeof voice === 'object') {
+    const openai = OPENAI_VOICES.includes(voice.openai) ? (voice.openai as OpenAIVoice) : undefined;
+    const speed =
+      typeof voice.speed === 'number' && Number.isFinite(voice.speed) && voice.speed >= 0.25 && voice.speed <= 4
+        ? voice.speed
+        : undefined;
+    if (voice.openai !== undefined && !openai) {
+      console.warn(`🎭 Persona "${data.id}": unknown OpenAI voice ${JSON.stringify(voice.openai)}, ignored`);
+    }
+    if (voice.speed !== undefined && speed === undefined) {
+      console.warn(`🎭 Persona "${data.id}": voice speed must be a number from 0.25 to 4, ignored`);
+    }
+    if (openai || speed !== undefined) {
+      persona.voice = { openai, speed };
+    }
+  }
+
+  return persona;
+}
+
+/**
+ * Built-in personas plus any custom ones saved in localStorage
+ * Custom personas with the same id replace the built-in one
+ */
+export function loadPersonas(): Persona[] {
+  const personas = new Map(BUILT_IN_PERSONAS.map((persona) => [persona.id, persona]));
+
+  try {
+    const saved = localStorage.getItem(CUSTOM_PERSONAS_STORAGE_KEY);
+    if (saved) {
+      const custom = JSON.parse(saved);
+      if (Array.isArray(custom)) {
+        custom.forEach((data) => {
+          const persona = readCustomPersona(data);
+          if (persona) {
+            personas.set(persona.id, persona);
+          }
+        });
+      }
+    }
+  } catch (error) {
+    console.warn('🎭 Failed to load custom personas:', error);
+  }
+
+  return [...personas.values()];
+}
+
+/**
+ * Find a persona by id, falling back to the default
+ */
+export function findPersona(personas: Persona[], id: string | null): Persona {
+  return (
+    personas.find((persona) => persona.id === id) ||
+    personas.find((persona) => persona.id === DEFAULT_PERSONA_ID) ||
+    personas[0]
+  );
+}
+
+/**
+ * Build the system prompt from a persona template and memory context
+ */
+export function renderPersonaPrompt(persona: Persona, memoryContext: string): string {
+  if (persona.prompt.includes('{{memory}}')) {
+    return persona.prompt.replace(/\{\{memory\}\}/g, memoryContext).trim();
+  }
+  return memoryContext ? `${persona.prompt}\n\n${memoryContext}` : persona.prompt;
+}
@@ -0,0 +1,360 @@
+/**
+ * Kuchi - Face Presence
+ * Optional camera mode: on-device face detection tells Kuchi whether someone is in front of it
+ * and where, so it can wake up, look at them, and doze when nobody is around.
+ * Frames come from a pluggable source (the camera, or a recorded video for testing)
+ */
+
+import type { Gaze } from './gaze';
+import tinyFaceManifest from '@vladmandic/face-api/model/tiny_face_detector_model-weights_manifest.json';
+import tinyFaceWeightsUrl from '@vladmandic/face-api/model/tiny_face_detector_model.bin?url';
+
+/**
+ * A face in the frame, in 0-1 frame coordinates (as the camera sees it, not mirrored)
+ */
+export interface DetectedFace {
+  x: number;  // Centre
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Where frames come from
+ */
+export interface FrameSource {
+  start(): Promise<void>;
+  getFrame(): HTMLVideoElement | null;  // null until a frame is available
+  stop(): void;
+}
+
+export interface FaceDetectorBackend {
+  readonly name: string;
+  detect(frame: HTMLVideoElement): Promise<DetectedFace[]>;
+}
+
+export interface PresenceCallbacks {
+  onPresenceChange: (present: boolean) => void;
+  onFace?: (face: DetectedFace) => void;  // Largest face, on every check that finds one
+}
+
+export interface PresenceOptions {
+  intervalMs: number;     // Time between checks
+  appearChecks: number;   // Checks in a row with a face before someone counts as present
+  absentAfterMs: number;  // No face for this long - nobody is there
+}
+
+const DEFAULT_OPTIONS: PresenceOptions = {
+  intervalMs: 500,
+  appearChecks: 2,
+  absentAfterMs: 20000,
+};
+
+function createVideo(): HTMLVideoElement {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  return video;
+}
+
+function hasFrame(video: HTMLVideoElement): boolean {
+  return video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && video.videoWidth > 0;
+}
+
+/**
+ * The front camera, at a low resolution - detection needs little detail
+ */
+export class CameraFrameSource implements FrameSource {
+  private video = createVideo();
+  private stream: MediaStream | null = null;
+  private session = 0;
+
+  static isSupported(): boolean {
+    return !!navigator.mediaDevices?.getUserMedia;
+  }
+
+  async start(): Promise<void> {
+    if (this.stream) return;
+
+    const session = ++this.session;
+    const stream = await navigator.mediaDevices.getUserMedia({
+      video: { facingMode: 'user', width: { ideal: 320 }, height: { ideal: 240 } },
+      audio: false,
+    });
+
+    // Stopped while the permission prompt was open - release the camera right away
+    if (session !== this.session) {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+
+    this.stream = stream;
+    this.video.srcObject = stream;
+    await this.video.play();
+  }
+
+  getFrame(): HTMLVideoElement | null {
+    return this.stream && hasFrame(this.video) ? this.video : null;
+  }
+
+  stop(): void {
+    this.session++;
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    this.video.srcObject = null;
+  }
+}
+
+/**
+ * A recorded video, looped - for testing presence without a camera
+ */
+export class VideoFrameSource implements FrameSource {
+  private video = createVideo();
+  private url: string;
+
+  constructor(url: string) {
+    this.url = url;
+    this.video.loop = true;
+  }
+
+  async start(): Promise<void> {
+    this.video.src = this.url;
+    await this.video.play();
+  }
+
+  getFrame(): HTMLVideoElement | null {
+    return hasFrame(this.video) ? this.video : null;
+  }
+
+  stop(): void {
+    this.video.pause();
+    this.video.removeAttribute('src');
+    this.video.load();
+  }
+}
+
+/**
+ * The browser's Shape Detection API (Chrome on Android and macOS, among others)
+ */
+export class NativeFaceDetector implements FaceDetectorBackend {
+  readonly name = 'FaceDetector API';
+  private detector: BrowserFaceDetector;
+
+  static isSupported(): boolean {
+    return typeof window.FaceDetector === 'function';
+  }
+
+  constructor() {
+    this.detector = new window.FaceDetector!({ fastMode: true, maxDetectedFaces: 3 });
+  }
+
+  async detect(frame: HTMLVideoElement): Promise<DetectedFace[]> {
+    const faces = await this.detector.detect(frame);
+    const width = frame.videoWidth;
+    const height = frame.videoHeight;
+    return faces.map(({ boundingBox: box }) => ({
+      x: (box.x + box.width / 2) / width,
+      y: (box.y + box.height / 2) / height,
+      width: box.width / width,
+      height: box.height / height,
+    }));
+  }
+}
+
+type FaceApi = typeof import('@vladmandic/face-api');
+
+/**
+ * Bundled fallback for browsers without the FaceDetector API: the Tiny Face Detector model
+ * (about 190KB of weights, with TensorFlow.js), loaded on first use so other browsers never download it
+ */
+export class TinyFaceModelDetector implements FaceDetectorBackend {
+  readonly name = 'Tiny Face Detector model';
+  private loading: Promise<FaceApi> | null = null;
+
+  private load(): Promise<FaceApi> {
+    this.loading ??= (async () => {
+      const faceapi = await import('@vladmandic/face-api');
+      const response = await fetch(tinyFaceWeightsUrl);
+      if (!response.ok) {
+        throw new Error(`Face model download failed: ${response.status}`);
+      }
+      const weights = faceapi.tf.io.decodeWeights(
+        await response.arrayBuffer(),
+        tinyFaceManifest[0].weights as Parameters<FaceApi['tf']['io']['decodeWeights']>[1]
+      );
+      faceapi.nets.tinyFaceDetector.loadFromWeightMap(weights);
+      console.log('📷 Face model loaded');
+      return faceapi;
+    })();
+
+    // A failed load is tried again on the next check
+    this.loading.catch(() => {
+      this.loading = null;
+    });
+    return this.loading;
+  }
+
+  async detect(frame: HTMLVideoElement): Promise<DetectedFace[]> {
+    const faceapi = await this.load();
+    const options = new faceapi.TinyFaceDetectorOptions({ inputSize: 224, scoreThreshold: 0.5 });
+    const detections = await faceapi.tinyFaceDetector(frame, options);
+    return detections.map(({ relativeBox: box }) => ({
+      x: box.x + box.width / 2,
+      y: box.y + box.height / 2,
+      width: box.width,
+      height: box.height,
+    }));
+  }
+}
+
+/**
+ * The best detector this browser has
+ */
+export function createFaceDetector(): FaceDetectorBackend {
+  return NativeFaceDetector.isSupported() ? new NativeFaceDetector() : new TinyFaceModelDetector();
+}
+
+/**
+ * Gaze that looks at a face. The camera faces the user, so its left is Kuchi's right
+ */
+export function gazeAtFace(face: DetectedFace): Gaze {
+  return {
+    x: Math.max(-1, Math.min(1, (0.5 - face.x) * 2)),
+    y: Math.max(-1, Math.min(1, (face.y - 0.5) * 2)),
+  };
+}
+
+/**
+ * Checks frames for faces a couple of times a second and reports when someone arrives or leaves
+ */
+export class PresenceMonitor {
+  private source: FrameSource;
+  private detector: FaceDetectorBackend;
+  private callbacks: PresenceCallbacks;
+  private options: PresenceOptions;
+  private timer: number | null = null;
+  private running = false;
+  private session = 0;
+  private present = false;
+  private reported = false;  // onPresenceChange has fired since start
+  private checksWithFace = 0;
+  private lastFaceTime = 0;
+
+  constructor(
+    source: FrameSource,
+    detector: FaceDetectorBackend,
+    callbacks: PresenceCallbacks,
+    options: Partial<PresenceOptions> = {}
+  ) {
+    this.source = source;
+    this.detector = detector;
+    this.callbacks = callbacks;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Open the frame source and start checking
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+
+    const session = ++this.session;
+    this.running = true;
+    try {
+      await this.source.start();
+    } catch (error) {
+      this.running = false;
+      throw error;
+    }
+    // Stopped while the source was starting - it may have opened since stop() ran
+    if (session !== this.session) {
+      this.source.stop();
+      return;
+    }
+
+    this.lastFaceTime = Date.now();
+    console.log(`📷 Presence detection started (${this.detector.name})`);
+    this.schedule(session);
+  }
+
+  private schedule(session: number): void {
+    this.timer = window.setTimeout(() => this.check(session), this.options.intervalMs);
+  }
+
+  private async check(session: number): Promise<void> {
+    const frame = this.source.getFrame();
+    let faces: DetectedFace[] = [];
+    if (frame) {
+      try {
+        faces = await this.detector.detect(frame);
+      } catch (error) {
+        console.warn('📷 Face detection failed:', error);
+      }
+    }
+    if (session !== this.session) return;
+
+    const now = Date.now();
+    if (faces.length > 0) {
+      const largest = faces.reduce((a, b) => (b.width * b.height > a.width * a.height ? b : a));
+      this.lastFaceTime = now;
+      this.checksWithFace++;
+      if (!this.present && this.checksWithFace >= this.options.appearChecks) {
+        this.setPresent(true);
+      }
+      if (this.present) {
+        this.callbacks.onFace?.(largest);
+      }
+    } else {
+      this.checksWithFace = 0;
+      // Nobody in the first frame checked - report it, so the app knows the state from the start
+      if (frame && !this.reported) {
+        this.setPresent(false);
+      } else if (this.present && now - this.lastFaceTime >= this.options.absentAfterMs) {
+        this.setPresent(false);
+      }
+    }
+
+    this.schedule(session);
+  }
+
+  private setPresent(present: boolean): void {
+    this.present = present;
+    this.reported = true;
+    console.log(present ? '📷 Someone is there' : '📷 Nobody is there');
+    this.callbacks.onPresenceChange(present);
+  }
+
+  /**
+   * Stop checking and release the camera
+   */
+  stop(): void {
+    this.session++;
+    this.running = false;
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.source.stop();
+    this.present = false;
+    this.reported = false;
+    this.checksWithFace = 0;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  isPresent(): boolean {
+    return this.present;
+  }
+}
+
+interface BrowserFaceDetector {
+  detect(image: HTMLVideoElement): Promise<{ boundingBox: DOMRectReadOnly }[]>;
+}
+
+declare global {
+  interface Window {
+    FaceDetector?: new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => BrowserFaceDetector;
+  }
+}
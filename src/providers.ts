@@ -0,0 +1,166 @@
+/**
+ * Kuchi - Chat Providers
+ * Any OpenAI-compatible chat endpoint: OpenAI, Ollama, llama.cpp, vLLM or a local mock server
+ */
+
+export interface ProviderCapabilities {
+  tools: boolean;      // Supports function calling
+  streaming: boolean;  // Supports stream: true
+  structuredOutput: boolean; // Supports response_format json_schema (replies come with an emotion)
+}
+
+export interface ChatProviderConfig {
+  preset: string;      // Id of the preset this config started from
+  baseURL: string;     // e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  model: string;
+  apiKey: string;      // Optional for local servers
+  capabilities: ProviderCapabilities;
+}
+
+export interface ProviderPreset {
+  id: string;
+  name: string;
+  baseURL: string;
+  model: string;
+  capabilities: ProviderCapabilities;
+}
+
+export const PROVIDER_STORAGE_KEY = 'kuchi_chat_provider';
+export const PROVIDER_API_KEY_STORAGE_KEY = 'kuchi_provider_api_key';
+export const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+export const PROVIDER_PRESETS: ProviderPreset[] = [
+  {
+    id: 'openai',
+    name: 'OpenAI',
+    baseURL: OPENAI_BASE_URL,
+    model: 'gpt-4o-mini',
+    capabilities: { tools: true, streaming: true, structuredOutput: true },
+  },
+  {
+    id: 'ollama',
+    name: 'Ollama',
+    baseURL: 'http://localhost:11434/v1',
+    model: 'llama3.1',
+    capabilities: { tools: true, streaming: true, structuredOutput: true },
+  },
+  {
+    id: 'llamacpp',
+    name: 'llama.cpp server',
+    baseURL: 'http://localhost:8080/v1',
+    model: 'local-model',
+    capabilities: { tools: false, streaming: true, structuredOutput: false },
+  },
+  {
+    id: 'vllm',
+    name: 'vLLM',
+    baseURL: 'http://localhost:8000/v1',
+    model: 'meta-llama/Llama-3.1-8B-Instruct',
+    capabilities: { tools: true, streaming: true, structuredOutput: true },
+  },
+  {
+    id: 'custom',
+    name: 'Custom (OpenAI-compatible)',
+    baseURL: 'http://localhost:8000/v1',
+    model: 'local-model',
+    capabilities: { tools: false, streaming: false, structuredOutput: false },
+  },
+];
+
+export function findPreset(id: string): ProviderPreset {
+  return PROVIDER_PRESETS.find((preset) => preset.id === id) || PROVIDER_PRESETS[0];
+}
+
+/**
+ * Default config for a preset
+ */
+export function configFromPreset(id: string, apiKey: string = ''): ChatProviderConfig {
+  const preset = findPreset(id);
+  return {
+    preset: preset.id,
+    baseURL: preset.baseURL,
+    model: preset.model,
+    apiKey,
+    capabilities: { ...preset.capabilities },
+  };
+}
+
+/**
+ * OpenAI itself needs a key; local servers usually don't
+ */
+export function providerRequiresKey(config: ChatProviderConfig): boolean {
+  try {
+    return new URL(config.baseURL).hostname === 'api.openai.com';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a config is complete enough to create an agent
+ * Returns an error message, or null if it's usable
+ */
+export function validateProviderConfig(config: ChatProviderConfig): string | null {
+  try {
+    const url = new URL(config.baseURL);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return 'Base URL must start with http:// or https://';
+    }
+  } catch {
+    return 'Invalid base URL';
+  }
+
+  if (!config.model.trim()) {
+    return 'Please enter a model name';
+  }
+
+  if (providerRequiresKey(config) && !config.apiKey) {
+    return 'Please enter an OpenAI API key';
+  }
+
+  return null;
+}
+
+/**
+ * Load the saved provider config
+ * The OpenAI preset uses the OpenAI API key; other providers use their own optional key
+ */
+export function loadProviderConfig(openaiApiKey: string): ChatProviderConfig {
+  const providerKey = localStorage.getItem(PROVIDER_API_KEY_STORAGE_KEY) || '';
+
+  try {
+    const saved = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    if (saved) {
+      const data = JSON.parse(saved);
+      const defaults = configFromPreset(typeof data.preset === 'string' ? data.preset : 'openai');
+      const config: ChatProviderConfig = {
+        preset: defaults.preset,
+        baseURL: typeof data.baseURL === 'string' ? data.baseURL : defaults.baseURL,
+        model: typeof data.model === 'string' ? data.model : defaults.model,
+        apiKey: '',
+        capabilities: {
+          tools: data.capabilities?.tools ?? defaults.capabilities.tools,
+          streaming: data.capabilities?.streaming ?? defaults.capabilities.streaming,
+          structuredOutput: data.capabilities?.structuredOutput ?? defaults.capabilities.structuredOutput,
+        },
+      };
+      config.apiKey = config.preset === 'openai' ? openaiApiKey : providerKey;
+      return config;
+    }
+  } catch (error) {
+    console.warn('🔌 Failed to load provider config, using OpenAI:', error);
+  }
+
+  return configFromPreset('openai', openaiApiKey);
+}
+
+/**
+ * Save the provider config (the key is stored separately so backups can leave it out)
+ */
+export function saveProviderConfig(config: ChatProviderConfig): void {
+  const { apiKey, ...rest } = config;
+  localStorage.setItem(PROVIDER_STORAGE_KEY, JSON.stringify(rest));
+  if (config.preset !== 'openai') {
+    localStorage.setItem(PROVIDER_API_KEY_STORAGE_KEY, apiKey);
+  }
+}
@@ -4,6 +4,21 @@
  * Expression conveyed purely through eye shapes - no mouth
  */
 
+import type { LanguageCode } from './language';
+import { expressionFromSentiment } from './sentiment';
+import {
+  CHOREOGRAPHY_PRIORITY,
+  ExpressionTimeline,
+  findChoreography,
+  type Choreography,
+  type ChoreographyHandle,
+  type ChoreographyStep,
+} from './choreography';
+import { NO_BLINK_EXPRESSIONS, customExpressionId, type CustomExpression } from './expressions';
+import { DomFaceRenderer, type FaceRenderer, type FaceRendererType } from './facerenderer';
+import { LedMatrixRenderer } from './ledmatrix';
+import { GazeTracker, type Gaze } from './gaze';
+
 export type Expression =
   // Basic states
   | 'neutral'
@@ -50,13 +65,21 @@ export type Expression =
   | 'lookLeft'
   | 'lookRight'
   | 'lookUp'
-  | 'lookDown';
+  | 'lookDown'
+  // User-designed faces (see expressions.ts)
+  | `custom:${string}`;
 
 export class RobotFace {
   private container: HTMLElement;
   private currentExpression: Expression = 'neutral';
   private blinkInterval: number | null = null;
-  private isBlinking = false;
+  private idleInterval: number | null = null;
+  private timeline: ExpressionTimeline;
+  private customExpressions: CustomExpression[] = [];
+  private renderer: FaceRenderer = new DomFaceRenderer();
+  private currentIntensity = 1;
+  private gazeTracker: GazeTracker;
+  private gaze: Gaze = { x: 0, y: 0 };
   private isSpeaking = false;
   private inactivityTimer: number | null = null;
   private lastActivityTime: number = Date.now();
@@ -69,7 +92,13 @@ export class RobotFace {
       throw new Error(`Element with id "${containerId}" not found`);
     }
     this.container = element;
+    this.timeline = new ExpressionTimeline((step) => this.applyExpression(step));
     this.createRobot();
+    this.renderer.mount(this.container.querySelector('.face') as HTMLElement);
+    this.gazeTracker = new GazeTracker(this.container.querySelector('.screen') as HTMLElement, (gaze) => {
+      this.gaze = gaze;
+      this.renderer.setGaze(gaze);
+    });
     this.setExpression('neutral');
     this.startBlinking();
     this.startIdleAnimations();
@@ -135,42 +164,74 @@ export class RobotFace {
   }
 
   /**
-   * Set the robot's facial expression
+   * Set the robot's facial expression, stopping any choreography that is playing
    * No mouth animation - expression stays fixed during speech
+   * @param intensity - How strongly it shows (0-1); renderers that can't blend show it fully
+   */
+  setExpression(expression: Expression, intensity: number = 1): void {
+    this.timeline.cancel();
+    this.applyExpression({ expression, duration: 0, intensity });
+  }
+
+  /**
+   * Switch how the face is drawn: DOM eyes (default) or the canvas LED matrix
+   */
+  setRenderer(type: FaceRendererType): void {
+    if (type === this.renderer.type) return;
+
+    const face = this.container.querySelector('.face') as HTMLElement;
+    this.renderer.destroy();
+    this.renderer = type === 'led' ? new LedMatrixRenderer() : new DomFaceRenderer();
+    this.renderer.mount(face);
+    this.renderer.setGaze(this.gaze);
+    this.applyExpression({
+      expression: this.currentExpression,
+      duration: 0,
+      intensity: this.currentIntensity,
+      transitionMs: 0,
+    });
+    console.log(`🤖 Face renderer: ${type}`);
+  }
+
+  /**
+   * Play a timed sequence of expressions (a choreography or the name of one in CHOREOGRAPHIES)
+   * It replaces the one playing unless that one has a higher priority; setExpression stops it
    */
-  setExpression(expression: Expression): void {
-    // Don't interrupt blink animation
-    if (this.isBlinking && expression !== 'blink') {
-      return;
+  play(choreography: Choreography | string): ChoreographyHandle {
+    const found = typeof choreography === 'string' ? findChoreography(choreography) : choreography;
+    if (!found) {
+      console.warn(`🎬 Unknown choreography: ${choreography}`);
+      return { cancel: () => {}, finished: Promise.resolve(false) };
     }
+    return this.timeline.play(found);
+  }
 
+  /**
+   * Draw the step's face with its transition timing, and move the body to match
+   */
+  private applyExpression(step: ChoreographyStep): void {
+    const expression = step.expression;
     this.currentExpression = expression;
-    const face = this.container.querySelector('.face') as HTMLElement;
+    this.currentIntensity = step.intensity ?? 1;
     const body = this.container.querySelector('.body') as HTMLElement;
 
-    if (!face || !body) return;
-
-    // Remove all expression classes
-    const allExpressions = [
-      'expr-neutral', 'expr-idle', 'expr-blink',
-      'expr-happy', 'expr-glee', 'expr-love', 'expr-excited', 'expr-awe', 'expr-starry', 'expr-mischievous',
-      'expr-sad', 'expr-crying', 'expr-worried', 'expr-angry', 'expr-furious', 'expr-scared', 'expr-frustrated',
-      'expr-surprised', 'expr-confused', 'expr-skeptic', 'expr-suspicious',
-      'expr-unimpressed', 'expr-annoyed', 'expr-sleepy', 'expr-drowsy', 'expr-squint', 'expr-focused',
-      'expr-pleading', 'expr-wink', 'expr-dizzy', 'expr-googly',
-      'expr-listening', 'expr-thinking', 'expr-speaking', 'expr-error', 'expr-dead',
-      'expr-lookLeft', 'expr-lookRight', 'expr-lookUp', 'expr-lookDown'
-    ];
-    
-    allExpressions.forEach(cls => face.classList.remove(cls));
-    body.classList.remove('wave');
+    if (!body) return;
 
-    // Add new expression class
-    if (expression && expression !== 'neutral' && expression !== 'idle') {
-      face.classList.add(`expr-${expression}`);
+    const custom = this.findCustomExpression(expression);
+    if (customExpressionId(expression) && !custom) {
+      console.warn(`🎨 Unknown custom expression: ${expression}`);
     }
 
+    this.renderer.render({
+      expression,
+      custom,
+      intensity: this.currentIntensity,
+      transitionMs: step.transitionMs ?? 300,
+      easing: step.easing ?? null,
+    });
+
     // Body animations for positive emotions
+    body.classList.remove('wave');
     if (['happy', 'glee', 'excited', 'love', 'awe'].includes(expression)) {
       body.classList.add('wave');
     }
@@ -178,38 +239,39 @@ export class RobotFace {
     console.log(`🤖 Expression: ${expression}`);
   }
 
+  /**
+   * Use user-designed faces: shown as 'custom:<id>', or instead of the built-in face they replace
+   */
+  setCustomExpressions(expressions: CustomExpression[]): void {
+    this.customExpressions = expressions;
+    this.applyExpression({ expression: this.currentExpression, duration: 0, intensity: this.currentIntensity });
+  }
+
+  private findCustomExpression(expression: Expression): CustomExpression | null {
+    const id = customExpressionId(expression);
+    return (
+      this.customExpressions.find((custom) => (id ? custom.id === id : custom.replaces === expression)) ?? null
+    );
+  }
+
   /**
    * Start blinking animation
    */
   private startBlinking(): void {
     const blink = () => {
-      // Don't blink during certain expressions
-      const noBlinkExpressions: Expression[] = [
-        'blink', 'happy', 'glee', 'sleepy', 'drowsy', 'squint', 'wink',
-        'annoyed', 'focused', 'frustrated', 'error', 'dead',
-        'angry', 'furious', 'love', 'dizzy', 'googly', 'starry', 'crying'
-      ];
-
-      if (noBlinkExpressions.includes(this.currentExpression)) {
+      // Don't blink during certain expressions (custom faces say for themselves)
+      const custom = this.findCustomExpression(this.currentExpression);
+      if (custom ? !custom.blink : NO_BLINK_EXPRESSIONS.includes(this.currentExpression)) {
         this.scheduleNextBlink();
         return;
       }
 
-      // Perform blink
-      this.isBlinking = true;
-      const face = this.container.querySelector('.face') as HTMLElement;
-
-      if (face) {
-        face.classList.add('expr-blink');
-      }
+      // Perform blink - an overlay on top of the expression, so expression changes still land meanwhile
+      const renderer = this.renderer;
+      renderer.setBlinking(true);
 
       // Restore after blink
-      setTimeout(() => {
-        if (face) {
-          face.classList.remove('expr-blink');
-        }
-        this.isBlinking = false;
-      }, 150);
+      setTimeout(() => renderer.setBlinking(false), 150);
 
       this.scheduleNextBlink();
     };
@@ -232,13 +294,23 @@ export class RobotFace {
     const idleLook = () => {
       if (this.isSleeping) return; // Don't animate while sleeping
 
+      if (this.timeline.isPlaying()) return;
+
       if (this.currentExpression === 'neutral' || this.currentExpression === 'idle') {
+        // Glance somewhere now and then - unless the eyes are following the pointer
+        if (Math.random() < 0.5) {
+          if (this.gazeTracker.isTracking()) return;
+          const angle = Math.random() * Math.PI * 2;
+          const reach = 0.6 + Math.random() * 0.4;
+          this.gazeTracker.lookAt(
+            { x: Math.cos(angle) * reach, y: Math.sin(angle) * reach * 0.7 },
+            700 + Math.random() * 800
+          );
+          return;
+        }
+
         // More varied idle behaviors
         const behaviors = [
-          { expr: 'lookLeft' as Expression, duration: 800 },
-          { expr: 'lookRight' as Expression, duration: 800 },
-          { expr: 'lookUp' as Expression, duration: 1000 },
-          { expr: 'lookDown' as Expression, duration: 700 },
           { expr: 'blink' as Expression, duration: 150 },
           { expr: 'squint' as Expression, duration: 600 },
           { expr: 'wink' as Expression, duration: 400 },
@@ -247,19 +319,17 @@ export class RobotFace {
 
         const randomBehavior = behaviors[Math.floor(Math.random() * behaviors.length)];
 
-        // Brief expression
-        this.setExpression(randomBehavior.expr);
-
-        setTimeout(() => {
-          if (!this.isSleeping && this.currentExpression === randomBehavior.expr) {
-            this.setExpression('neutral');
-          }
-        }, randomBehavior.duration + Math.random() * 500);
+        // Brief expression - anything else Kuchi does interrupts it
+        this.timeline.play({
+          name: `idle-${randomBehavior.expr}`,
+          steps: [{ expression: randomBehavior.expr, duration: randomBehavior.duration + Math.random() * 500 }],
+          priority: CHOREOGRAPHY_PRIORITY.idle,
+        });
       }
     };
 
     // Run occasionally
-    setInterval(() => {
+    this.idleInterval = window.setInterval(() => {
       if (Math.random() > 0.6) {
         idleLook();
       }
@@ -288,6 +358,7 @@ export class RobotFace {
    */
   private enterSleepMode(): void {
     this.isSleeping = true;
+    this.gazeTracker.setEnabled(false);
     this.setExpression('sleepy');
 
     // Add zzz animation to the face
@@ -313,6 +384,7 @@ export class RobotFace {
     if (!this.isSleeping) return;
 
     this.isSleeping = false;
+    this.gazeTracker.setEnabled(true);
     this.lastActivityTime = Date.now();
 
     // Remove zzz animation - check both container and screen
@@ -332,13 +404,8 @@ export class RobotFace {
       }
     }
 
-    // Show surprised expression briefly when woken up
-    this.setExpression('surprised');
-    setTimeout(() => {
-      if (!this.isSpeaking) {
-        this.setExpression('neutral');
-      }
-    }, 1000);
+    // Startled look around when woken up - speech setting a face cuts it short
+    this.play('wake-up');
 
     console.log('👀 Kuchi woke up!');
   }
@@ -356,41 +423,32 @@ export class RobotFace {
   }
 
   /**
-   * Analyze text sentiment and return appropriate expression
+   * Fall asleep now instead of waiting out the inactivity timeout (e.g. nobody is in front of the camera)
+   */
+  doze(): void {
+    if (this.isSleeping || this.isSpeaking) return;
+    this.enterSleepMode();
+  }
+
+  /**
+   * Look at something for a while (e.g. a face the camera found), then back at the centre
+   */
+  lookAt(gaze: Gaze, holdMs: number): void {
+    this.gazeTracker.lookAt(gaze, holdMs);
+  }
+
+  /**
+   * Analyze text sentiment and return appropriate expression (neutral when nothing specific matches)
    * Used to set expression during speech - expression stays fixed while speaking
+   * @param agreeExpression - Face for plain agreement like "sure" (the persona's own face)
+   * @param language - Language of the text, picks the keyword list
    */
-  getExpressionFromSentiment(text: string): Expression {
-    const lower = text.toLowerCase();
-
-    // Positive emotions
-    if (lower.match(/(love|adore|heart|romantic|dear|sweet)/i)) return 'love';
-    if (lower.match(/(haha|lol|rofl|lmao|hilarious|😂|🤣)/i)) return 'glee';
-    if (lower.match(/(wow|amazing|incredible|awesome|fantastic|wonderful|brilliant)/i)) return 'awe';
-    if (lower.match(/(excited|can't wait|thrilled|pumped|yay|woohoo)/i)) return 'excited';
-    if (lower.match(/(great|good|nice|happy|glad|pleased|excellent|perfect)/i)) return 'happy';
-    
-    // Negative emotions
-    if (lower.match(/(sorry|apologize|unfortunately|sad|regret)/i)) return 'sad';
-    if (lower.match(/(worried|concern|anxious|nervous)/i)) return 'worried';
-    if (lower.match(/(angry|mad|furious|outraged)/i)) return 'angry';
-    if (lower.match(/(scared|afraid|terrified|frightened)/i)) return 'scared';
-    if (lower.match(/(frustrated|annoying|ugh)/i)) return 'frustrated';
-    
-    // Complex emotions
-    if (lower.match(/(error|fail|wrong|broken|can't|cannot|unable)/i)) return 'worried';
-    if (lower.match(/(confused|unclear|don't understand|what do you mean)/i)) return 'confused';
-    if (lower.match(/(really\?|seriously\?|hmm|skeptical)/i)) return 'skeptic';
-    if (lower.match(/(suspicious|doubt|not sure)/i)) return 'suspicious';
-    if (lower.match(/(think|consider|let me see|hmm|processing)/i)) return 'thinking';
-    if (lower.match(/(surprise|what\?!|no way|oh my)/i)) return 'surprised';
-    if (lower.match(/(sleepy|tired|yawn|exhausted)/i)) return 'sleepy';
-    if (lower.match(/(focus|concentrate|important|attention)/i)) return 'focused';
-    if (lower.match(/(please|help|need|beg)/i)) return 'pleading';
-    
-    // Default to happy for neutral/positive responses
-    if (lower.match(/(here|is|the|this|that|yes|sure|okay|ok|alright)/i)) return 'happy';
-    
-    return 'neutral';
+  getExpressionFromSentiment(
+    text: string,
+    agreeExpression: Expression = 'happy',
+    language: LanguageCode = 'en'
+  ): Expression {
+    return expressionFromSentiment(text, agreeExpression, language);
   }
 
   /**
@@ -401,10 +459,22 @@ export class RobotFace {
   }
 
   /**
-   * Set speaking state - expression stays fixed, no mouth animation
+   * Set speaking state - expression stays fixed, the speaking animation runs on top of it
    */
   setSpeaking(speaking: boolean): void {
     this.isSpeaking = speaking;
+    this.container.querySelector('.kuchi-bot')?.classList.toggle('speaking', speaking);
+    if (!speaking) {
+      this.setSpeechLevel(0);
+    }
+  }
+
+  /**
+   * Loudness of Kuchi's voice right now (0-1) - the eyes pulse and glow and the head bobs with it
+   */
+  setSpeechLevel(level: number): void {
+    const bot = this.container.querySelector('.kuchi-bot') as HTMLElement | null;
+    bot?.style.setProperty('--speech-level', level.toFixed(3));
   }
 
   /**
@@ -418,6 +488,12 @@ export class RobotFace {
    * Cleanup
    */
   destroy(): void {
+    this.timeline.cancel();
+    this.gazeTracker.destroy();
+    this.renderer.destroy();
+    if (this.idleInterval) {
+      clearInterval(this.idleInterval);
+    }
     if (this.blinkInterval) {
       clearTimeout(this.blinkInterval);
     }
@@ -0,0 +1,431 @@
+/**
+ * Kuchi - Web Search Providers
+ * SerpAPI, SearXNG, Brave or any JSON endpoint behind one interface, with caching
+ */
+
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+export interface CitedSource extends SearchResult {
+  index: number;            // Number the user and the model refer to the source by
+}
+
+export interface SearchResponse {
+  query: string;
+  answer?: string;          // Direct answer, when the provider has one
+  results: SearchResult[];
+}
+
+export interface SearchProvider {
+  readonly name: string;
+  search(query: string): Promise<SearchResponse>;
+}
+
+export type SearchProviderId = 'none' | 'serpapi' | 'searxng' | 'brave' | 'custom';
+
+export interface SearchConfig {
+  provider: SearchProviderId;
+  apiKey: string;     // SerpAPI or Brave key
+  endpoint: string;   // SearXNG instance or custom endpoint
+  proxyUrl: string;   // Optional CORS proxy you run yourself - the request URL is appended, encoded
+}
+
+export interface SearchProviderOption {
+  id: SearchProviderId;
+  name: string;
+  needsKey: boolean;
+  needsEndpoint: boolean;
+  defaultEndpoint: string;
+}
+
+export const SEARCH_STORAGE_KEY = 'kuchi_search_provider';
+
+export const SERPAPI_KEY_STORAGE_KEY = 'kuchi_serp_api_key';
+export const BRAVE_API_KEY_STORAGE_KEY = 'kuchi_brave_api_key';
+
+// Keys are stored per provider so switching back and forth keeps them
+export const SEARCH_API_KEY_STORAGE_KEYS: Partial<Record<SearchProviderId, string>> = {
+  serpapi: SERPAPI_KEY_STORAGE_KEY,
+  brave: BRAVE_API_KEY_STORAGE_KEY,
+};
+
+export const SEARCH_PROVIDER_OPTIONS: SearchProviderOption[] = [
+  { id: 'none', name: 'Off', needsKey: false, needsEndpoint: false, defaultEndpoint: '' },
+  { id: 'serpapi', name: 'SerpAPI (Google)', needsKey: true, needsEndpoint: false, defaultEndpoint: '' },
+  { id: 'searxng', name: 'SearXNG', needsKey: false, needsEndpoint: true, defaultEndpoint: 'http://localhost:8888' },
+  { id: 'brave', name: 'Brave Search', needsKey: true, needsEndpoint: false, defaultEndpoint: '' },
+  { id: 'custom', name: 'Custom endpoint', needsKey: false, needsEndpoint: true, defaultEndpoint: 'http://localhost:8787/search?q={query}' },
+];
+
+const MAX_RESULTS = 5;
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 50;
+
+export function findSearchOption(id: string): SearchProviderOption {
+  return SEARCH_PROVIDER_OPTIONS.find((option) => option.id === id) || SEARCH_PROVIDER_OPTIONS[0];
+}
+
+function proxied(url: URL | string, proxyUrl: string): string {
+  return proxyUrl ? `${proxyUrl}${encodeURIComponent(url.toString())}` : url.toString();
+}
+
+/**
+ * Fetch JSON, optionally through the user's own CORS proxy
+ */
+async function fetchJson(url: URL, proxyUrl: string, init: RequestInit = {}): Promise<any> {
+  const response = await fetch(proxied(url, proxyUrl), init);
+  if (!response.ok) {
+    throw new Error(`Search API error: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+function toResult(item: any): SearchResult | null {
+  const url = item?.url ?? item?.link;
+  if (typeof url !== 'string' || !url) return null;
+  return {
+    title: String(item.title ?? url),
+    url,
+    snippet: String(item.snippet ?? item.content ?? item.description ?? ''),
+  };
+}
+
+function toResults(items: unknown): SearchResult[] {
+  if (!Array.isArray(items)) return [];
+  return items.map(toResult).filter((result): result is SearchResult => result !== null);
+}
+
+export class SerpApiSearch implements SearchProvider {
+  readonly name = 'SerpAPI';
+
+  constructor(private apiKey: string, private proxyUrl: string) {}
+
+  async search(query: string): Promise<SearchResponse> {
+    const url = new URL('https://serpapi.com/search');
+    url.searchParams.append('api_key', this.apiKey);
+    url.searchParams.append('engine', 'google');
+    url.searchParams.append('q', query);
+    url.searchParams.append('num', String(MAX_RESULTS));
+
+    const data = await fetchJson(url, this.proxyUrl);
+    return {
+      query,
+      answer: data.answer_box?.answer || data.answer_box?.snippet || data.knowledge_graph?.description,
+      results: toResults(data.organic_results),
+    };
+  }
+}
+
+export class SearxngSearch implements SearchProvider {
+  readonly name = 'SearXNG';
+
+  constructor(private endpoint: string) {}
+
+  async search(query: string): Promise<SearchResponse> {
+    // The instance must have the json format enabled in settings.yml
+    const url = new URL('search', this.endpoint.endsWith('/') ? this.endpoint : `${this.endpoint}/`);
+    url.searchParams.append('q', query);
+    url.searchParams.append('format', 'json');
+
+    const data = await fetchJson(url, '');
+    const answer = Array.isArray(data.answers) ? data.answers[0] : undefined;
+    return {
+      query,
+      answer: typeof answer === 'string' ? answer : answer?.answer,
+      results: toResults(data.results),
+    };
+  }
+}
+
+export class BraveSearch implements SearchProvider {
+  readonly name = 'Brave Search';
+
+  constructor(private apiKey: string, private proxyUrl: string) {}
+
+  async search(query: string): Promise<SearchResponse> {
+    const url = new URL('https://api.search.brave.com/res/v1/web/search');
+    url.searchParams.append('q', query);
+    url.searchParams.append('count', String(MAX_RESULTS));
+
+    const data = await fetchJson(url, this.proxyUrl, {
+      headers: { Accept: 'application/json', 'X-Subscription-Token': this.apiKey },
+    });
+    return { query, results: toResults(data.web?.results) };
+  }
+}
+
+/**
+ * Any endpoint returning [{title, url, snippet}] or {answer, results: [...]}
+ * {query} in the URL is replaced with the query, otherwise it's sent as ?q=
+ */
+export class EndpointSearch implements SearchProvider {
+  readonly name = 'Custom endpoint';
+
+  constructor(private endpoint: string, private proxyUrl: string) {}
+
+  async search(query: string): Promise<SearchResponse> {
+    let url: URL;
+    if (this.endpoint.includes('{query}')) {
+      url = new URL(this.endpoint.replace('{query}', encodeURIComponent(query)));
+    } else {
+      url = new URL(this.endpoint);
+      url.searchParams.append('q', query);
+    }
+
+    const data = await fetchJson(url, this.proxyUrl);
+    return Array.isArray(data)
+      ? { query, results: toResults(data) }
+      : { query, answer: typeof data.answer === 'string' ? data.answer : undefined, results: toResults(data.results) };
+  }
+}
+
+/**
+ * Normalize a URL so the same page from different sources compares equal
+ */
+function sourceKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    [...parsed.searchParams.keys()]
+      .filter((key) => key.startsWith('utm_'))
+      .forEach((key) => parsed.searchParams.delete(key));
+    const host = parsed.hostname.replace(/^www\./, '');
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${host}${path}${parsed.search}`.toLowerCase();
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+/**
+ * Only http(s) links are safe to open from a search result
+ */
+export function isWebUrl(url: string): boolean {
+  try {
+    const protocol = new URL(url).protocol;
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Website name for a source, e.g. "bbc.co.uk"
+ */
+export function sourceSite(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Drop results that point at the same page
+ */
+export function dedupeResults(results: SearchResult[]): SearchResult[] {
+  const seen = new Set<string>();
+  return results.filter((result) => {
+    const key = sourceKey(result.url);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Readable text of a web page (scripts, navigation and other chrome removed)
+ */
+export async function fetchPageText(url: string, proxyUrl: string = ''): Promise<string> {
+  const response = await fetch(proxied(url, proxyUrl));
+  if (!response.ok) {
+    throw new Error(`Page request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const body = await response.text();
+  if (!(response.headers.get('content-type') || '').includes('html')) {
+    return body.replace(/\s+/g, ' ').trim();
+  }
+
+  const doc = new DOMParser().parseFromString(body, 'text/html');
+  doc.querySelectorAll('script, style, noscript, nav, header, footer, aside, form, svg').forEach((node) => node.remove());
+  const main = doc.querySelector('article') || doc.querySelector('main') || doc.body;
+  return (main?.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Wraps a provider with a short-lived cache and source de-duplication
+ */
+export class SearchService implements SearchProvider {
+  private cache = new Map<string, { expires: number; response: Promise<SearchResponse> }>();
+
+  constructor(private provider: SearchProvider, private proxyUrl: string = '') {}
+
+  get name(): string {
+    return this.provider.name;
+  }
+
+  search(query: string): Promise<SearchResponse> {
+    const key = query.trim().toLowerCase().replace(/\s+/g, ' ');
+    const cached = this.cache.get(key);
+    if (cached && cached.expires > Date.now()) {
+      console.log(`🔍 Cached search: "${query}"`);
+      // Re-insert so the least recently used entry is evicted first
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      return cached.response;
+    }
+
+    // Cache the promise so identical parallel searches share one request
+    const response = this.provider.search(query).then((result) => ({
+      ...result,
+      results: dedupeResults(result.results).slice(0, MAX_RESULTS),
+    }));
+    response.catch(() => this.cache.delete(key));
+
+    this.cache.set(key, { expires: Date.now() + CACHE_TTL_MS, response });
+    if (this.cache.size > MAX_CACHE_ENTRIES) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    return response;
+  }
+
+  /**
+   * Pages are only readable through a proxy - most sites don't allow cross-origin requests
+   */
+  canReadPages(): boolean {
+    return !!this.proxyUrl;
+  }
+
+  /**
+   * Read a result page, through the same proxy as the searches
+   */
+  async readPage(url: string): Promise<string> {
+    if (!this.proxyUrl) {
+      throw new Error('Reading pages needs a CORS proxy');
+    }
+    return fetchPageText(url, this.proxyUrl);
+  }
+}
+
+/**
+ * Render a search response as text for the model
+ * @param numbers - Source number of each result, so sources stay numbered across searches (default 1, 2, 3...)
+ */
+export function formatSearchResults(
+  response: SearchResponse,
+  numbers: number[] = response.results.map((_, index) => index + 1)
+): string {
+  if (response.results.length === 0 && !response.answer) {
+    return `No results found for "${response.query}".`;
+  }
+
+  let summary = '';
+  if (response.answer) {
+    summary += `Quick Answer: ${response.answer}\n\n`;
+  }
+  summary += `Search results for "${response.query}":\n\n`;
+
+  response.results.forEach((result, index) => {
+    summary += `${numbers[index]}. ${result.title}\n`;
+    if (result.snippet) {
+      summary += `   ${result.snippet}\n`;
+    }
+    summary += `   Source: ${result.url}\n\n`;
+  });
+
+  return summary;
+}
+
+/**
+ * Check a config is complete enough to search with
+ * Returns an error message, or null if it's usable
+ */
+export function validateSearchConfig(config: SearchConfig): string | null {
+  const option = findSearchOption(config.provider);
+
+  if (option.needsKey && !config.apiKey) {
+    return `Please enter a ${option.name} API key`;
+  }
+
+  const urls = [
+    ...(option.needsEndpoint ? [config.endpoint.replace('{query}', 'x')] : []),
+    ...(config.proxyUrl ? [config.proxyUrl] : []),
+  ];
+  for (const value of urls) {
+    try {
+      const url = new URL(value);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return 'Search URLs must start with http:// or https://';
+      }
+    } catch {
+      return `Invalid search URL: ${value || '(empty)'}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Create the provider for a config (null when search is off)
+ */
+export function createSearchProvider(config: SearchConfig): SearchService | null {
+  switch (config.provider) {
+    case 'serpapi':
+      return new SearchService(new SerpApiSearch(config.apiKey, config.proxyUrl), config.proxyUrl);
+    case 'searxng':
+      // SearXNG is searched directly - the proxy is only used to read result pages
+      return new SearchService(new SearxngSearch(config.endpoint), config.proxyUrl);
+    case 'brave':
+      return new SearchService(new BraveSearch(config.apiKey, config.proxyUrl), config.proxyUrl);
+    case 'custom':
+      return new SearchService(new EndpointSearch(config.endpoint, config.proxyUrl), config.proxyUrl);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Load the saved search config
+ * Without one, keep using SerpAPI if a SerpAPI key was saved before search became configurable
+ */
+export function loadSearchConfig(): SearchConfig {
+  let provider: SearchProviderId = localStorage.getItem(SERPAPI_KEY_STORAGE_KEY) ? 'serpapi' : 'none';
+  let endpoint = '';
+  let proxyUrl = '';
+
+  try {
+    const saved = localStorage.getItem(SEARCH_STORAGE_KEY);
+    if (saved) {
+      const data = JSON.parse(saved);
+      provider = findSearchOption(data.provider).id;
+      endpoint = typeof data.endpoint === 'string' ? data.endpoint : '';
+      proxyUrl = typeof data.proxyUrl === 'string' ? data.proxyUrl : '';
+    }
+  } catch (error) {
+    console.warn('🔍 Failed to load search config:', error);
+  }
+
+  const keyStorage = SEARCH_API_KEY_STORAGE_KEYS[provider];
+  return {
+    provider,
+    apiKey: (keyStorage && localStorage.getItem(keyStorage)) || '',
+    endpoint: endpoint || findSearchOption(provider).defaultEndpoint,
+    proxyUrl,
+  };
+}
+
+/**
+ * Save the search config (keys are stored separately so backups can leave them out)
+ */
+export function saveSearchConfig(config: SearchConfig): void {
+  const { apiKey, ...rest } = config;
+  localStorage.setItem(SEARCH_STORAGE_KEY, JSON.stringify(rest));
+
+  const keyStorage = SEARCH_API_KEY_STORAGE_KEYS[config.provider];
+  if (keyStorage) {
+    localStorage.setItem(keyStorage, apiKey);
+  }
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { expressionFromSentiment } from './sentiment';
+
+describe('expressionFromSentiment', () => {
+  it('matches keywords as whole words only', () => {
+    // "is" inside "this", "mad" inside "made"
+    expect(expressionFromSentiment('This was made yesterday.')).toBe('neutral');
+    expect(expressionFromSentiment('I am so mad right now.')).toBe('angry');
+  });
+
+  it('matches stems', () => {
+    expect(expressionFromSentiment('I apologise for the wait.')).toBe('sad');
+    expect(expressionFromSentiment('Estoy preocupada por ti.', 'happy', 'es')).toBe('worried');
+  });
+
+  it('uses the first matching rule', () => {
+    expect(expressionFromSentiment('Wow, that is great!')).toBe('awe');
+  });
+
+  it('gives plain agreement the persona face', () => {
+    expect(expressionFromSentiment('Sure, here it is.', 'mischievous')).toBe('mischievous');
+    expect(expressionFromSentiment('Claro, aquí está.', 'love', 'es')).toBe('love');
+  });
+
+  it('stays neutral for plain statements', () => {
+    expect(expressionFromSentiment('The train leaves at nine.')).toBe('neutral');
+    expect(expressionFromSentiment('El tren sale a las nueve.', 'happy', 'es')).toBe('neutral');
+    expect(expressionFromSentiment('Der Zug fährt um neun.', 'happy', 'de')).toBe('neutral');
+  });
+
+  it('respects word boundaries in Devanagari', () => {
+    expect(expressionFromSentiment('मुझे डर लग रहा है', 'happy', 'hi')).toBe('scared');
+    // डर inside डरावनी is not a whole word, and है alone is not a cue
+    expect(expressionFromSentiment('यह फ़िल्म डरावनी है', 'happy', 'hi')).toBe('neutral');
+    expect(expressionFromSentiment('हाँ, ठीक है', 'glee', 'hi')).toBe('glee');
+  });
+
+  it('is neutral for languages without keywords', () => {
+    expect(expressionFromSentiment('はい、わかりました', 'happy', 'ja')).toBe('neutral');
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Kuchi - Keyword Sentiment
+ * Fallback face for a reply when the model picks no emotion: keyword lists per language,
+ * matched as whole words so "is" doesn't fire inside "this"
+ */
+
+import type { Expression } from './robot';
+import type { LanguageCode } from './language';
+
+// Checked in order - the first match picks the face
+// 'agree' matches plain agreement ("sure", "okay") and gives the persona's own face
+type SentimentRule = [Expression | 'agree', RegExp];
+
+// Letters, combining marks (Devanagari vowel signs) and digits all belong to a word
+const WORD_CHAR = '[\\p{L}\\p{M}\\p{N}]';
+
+/**
+ * Match any of the keywords as whole words
+ * A trailing * matches a word stem instead: 'preocupad*' matches preocupado and preocupada
+ */
+function keywords(...words: string[]): RegExp {
+  const alternatives = words.map((word) => {
+    const stem = word.endsWith('*');
+    const escaped = (stem ? word.slice(0, -1) : word).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return stem ? escaped : `${escaped}(?!${WORD_CHAR})`;
+  });
+  return new RegExp(`(?<!${WORD_CHAR})(?:${alternatives.join('|')})`, 'iu');
+}
+
+const SENTIMENT_RULES: Partial<Record<LanguageCode, SentimentRule[]>> = {
+  en: [
+    // Positive emotions
+    ['love', keywords('love*', 'adore*', 'heart*', 'romantic', 'dear', 'sweet*')],
+    ['glee', keywords('haha*', 'lol', 'rofl', 'lmao', 'hilarious', '😂', '🤣')],
+    ['awe', keywords('wow', 'amazing', 'incredible', 'awesome', 'fantastic', 'wonderful', 'brilliant')],
+    ['excited', keywords('excited', "can't wait", 'thrilled', 'pumped', 'yay', 'woohoo')],
+    ['happy', keywords('great', 'good', 'nice', 'happy', 'glad', 'pleased', 'excellent', 'perfect')],
+    // Negative emotions
+    ['sad', keywords('sorry', 'apologi*', 'unfortunately', 'sad', 'regret*')],
+    ['worried', keywords('worried', 'concern*', 'anxious', 'nervous')],
+    ['angry', keywords('angry', 'mad', 'furious', 'outraged')],
+    ['scared', keywords('scared', 'afraid', 'terrified', 'frightened')],
+    ['frustrated', keywords('frustrat*', 'annoying', 'ugh')],
+    // Complex emotions
+    ['worried', keywords('error*', 'fail*', 'wrong', 'broken', "can't", 'cannot', 'unable')],
+    ['confused', keywords('confused', 'unclear', "don't understand", 'what do you mean')],
+    ['skeptic', keywords('really?', 'seriously?', 'hmm*', 'skeptical')],
+    ['suspicious', keywords('suspicious', 'doubt*', 'not sure')],
+    ['thinking', keywords('think*', 'consider*', 'let me see', 'processing')],
+    ['surprised', keywords('surprise*', 'what?!', 'no way', 'oh my')],
+    ['sleepy', keywords('sleepy', 'tired', 'yawn*', 'exhausted')],
+    ['focused', keywords('focus*', 'concentrat*', 'important', 'attention')],
+    ['pleading', keywords('please', 'help', 'need', 'beg')],
+    ['agree', keywords('yes', 'sure', 'okay', 'ok', 'alright', 'of course')],
+  ],
+  // Devanagari plus romanized Hindi
+  hi: [
+    ['love', keywords('प्यार', 'प्रेम', 'दिल से', 'pyaar', 'pyar')],
+    ['glee', keywords('हाहा', 'हा हा', 'haha*', '😂', '🤣')],
+    ['awe', keywords('वाह', 'अद्भुत', 'शानदार', 'कमाल', 'waah', 'kamaal', 'shandaar')],
+    ['excited', keywords('उत्साहित', 'मज़ा', 'मजा', 'बेसब्री', 'mazaa', 'maza')],
+    ['happy', keywords('अच्छा', 'बढ़िया', 'खुश', 'बधाई', 'badhiya', 'khush', 'accha', 'achha')],
+    ['sad', keywords('माफ़*', 'माफ*', 'दुख', 'अफ़सोस', 'अफसोस', 'दुर्भाग्य*', 'maaf', 'dukh', 'afsos')],
+    ['worried', keywords('चिंता', 'परेशान', 'घबरा*', 'chinta', 'pareshan')],
+    ['angry', keywords('गुस्सा', 'नाराज़', 'नाराज', 'gussa', 'naraz')],
+    ['scared', keywords('डर', 'भयभीत', 'darr', 'dar lag*')],
+    ['frustrated', keywords('झुंझला*', 'उफ़', 'उफ', 'uff')],
+    ['worried', keywords('गलत', 'ग़लत', 'त्रुटि', 'नहीं कर सक*', 'galat')],
+    ['confused', keywords('उलझन', 'समझ नहीं', 'samajh nahi')],
+    ['thinking', keywords('सोच*', 'विचार', 'soch*')],
+    ['surprised', keywords('अरे', 'सच में', 'हैरान', 'arre', 'sach mein')],
+    ['sleepy', keywords('नींद', 'थका*', 'neend', 'thak*')],
+    ['focused', keywords('ध्यान', 'ज़रूरी', 'जरूरी', 'dhyan', 'zaroori')],
+    ['pleading', keywords('कृपया', 'मदद', 'प्लीज़', 'kripya', 'madad')],
+    ['agree', keywords('हाँ', 'हां', 'ठीक है', 'haan', 'theek hai')],
+  ],
+  es: [
+    ['love', keywords('amor', 'te quiero', 'cariño', 'corazón')],
+    ['glee', keywords('jaja*', 'jeje*', '😂', '🤣')],
+    ['awe', keywords('increíble', 'asombroso', 'impresionante', 'genial', 'maravilloso')],
+    ['excited', keywords('emocionad*', 'no puedo esperar', 'qué ilusión')],
+    ['happy', keywords('bien', 'bueno', 'buena', 'feliz', 'contento', 'contenta', 'excelente', 'perfecto')],
+    ['sad', keywords('lo siento', 'perdón', 'lamento', 'desafortunadamente', 'triste')],
+    ['worried', keywords('preocupad*', 'nervios*', 'ansios*')],
+    ['angry', keywords('enfadad*', 'enojad*', 'furios*')],
+    ['scared', keywords('miedo', 'asustad*', 'aterrad*')],
+    ['frustrated', keywords('frustrad*', 'molest*')],
+    ['worried', keywords('error*', 'fall*', 'no puedo', 'imposible')],
+    ['confused', keywords('confundid*', 'no entiendo')],
+    ['thinking', keywords('pienso', 'pensar', 'déjame ver')],
+    ['surprised', keywords('sorpresa', 'no me digas', 'vaya')],
+    ['sleepy', keywords('sueño', 'cansad*')],
+    ['focused', keywords('concéntra*', 'importante', 'atención')],
+    ['pleading', keywords('por favor', 'ayuda', 'necesito')],
+    ['agree', keywords('sí', 'claro', 'vale', 'de acuerdo')],
+  ],
+  fr: [
+    ['love', keywords('amour', "je t'aime", 'chéri*', 'cœur', 'coeur')],
+    ['glee', keywords('haha*', 'mdr', '😂', '🤣')],
+    ['awe', keywords('incroyable', 'génial', 'formidable', 'magnifique', 'extraordinaire')],
+    ['excited', keywords('excité*', 'hâte', 'youpi')],
+    ['happy', keywords('bien', 'bon', 'bonne', 'heureu*', 'content*', 'excellent*', 'parfait*')],
+    ['sad', keywords('désolé*', 'malheureusement', 'triste', 'regrette')],
+    ['worried', keywords('inquiet*', 'nerveu*', 'anxieu*')],
+    ['angry', keywords('fâché*', 'en colère', 'furieu*')],
+    ['scared', keywords('peur', 'effrayé*', 'terrifié*')],
+    ['frustrated', keywords('frustré*', 'agaçant*', 'pff')],
+    ['worried', keywords('erreur*', 'échec*', 'impossible', 'je ne peux pas')],
+    ['confused', keywords('confus*', 'je ne comprends pas')],
+    ['thinking', keywords('je pense', 'réfléchi*', 'voyons')],
+    ['surprised', keywords('surpris*', 'pas possible', 'oh là là')],
+    ['sleepy', keywords('fatigué*', 'sommeil')],
+    ['focused', keywords('concentr*', 'important*', 'attention')],
+    ['pleading', keywords("s'il te plaît", "s'il vous plaît", 'aide', 'besoin')],
+    ['agree', keywords('oui', 'bien sûr', "d'accord")],
+  ],
+  de: [
+    ['love', keywords('liebe*', 'herz*', 'schatz')],
+    ['glee', keywords('haha*', '😂', '🤣')],
+    ['awe', keywords('wow', 'unglaublich', 'erstaunlich', 'großartig', 'fantastisch', 'wunderbar')],
+    ['excited', keywords('aufgeregt', 'freue mich', 'kaum erwarten', 'juhu')],
+    ['happy', keywords('gut', 'gute*', 'schön*', 'froh', 'glücklich', 'ausgezeichnet', 'perfekt')],
+    ['sad', keywords('leider', 'tut mir leid', 'entschuldig*', 'traurig')],
+    ['worried', keywords('besorgt', 'sorge*', 'nervös', 'ängstlich')],
+    ['angry', keywords('wütend', 'sauer', 'verärgert')],
+    ['scared', keywords('angst', 'erschrocken')],
+    ['frustrated', keywords('frustriert', 'nervig', 'ärgerlich')],
+    ['worried', keywords('fehler*', 'kann nicht', 'unmöglich', 'kaputt')],
+    ['confused', keywords('verwirrt', 'verstehe nicht')],
+    ['thinking', keywords('denke*', 'überlege*', 'mal sehen')],
+    ['surprised', keywords('überrascht', 'echt?', 'ach du')],
+    ['sleepy', keywords('müde', 'schläfrig')],
+    ['focused', keywords('konzentr*', 'wichtig*', 'achtung')],
+    ['pleading', keywords('bitte', 'hilfe', 'brauche')],
+    ['agree', keywords('ja', 'klar', 'okay', 'genau')],
+  ],
+};
+
+/**
+ * Face for a reply from its keywords, or neutral when nothing specific matches
+ * @param agreeExpression - Face for plain agreement like "sure" (the persona's own face)
+ * @param language - Language of the text, picks the keyword list (neutral if it has none)
+ */
+export function expressionFromSentiment(
+  text: string,
+  agreeExpression: Expression = 'happy',
+  language: LanguageCode = 'en'
+): Expression {
+  const rules = SENTIMENT_RULES[language];
+  if (!rules) return 'neutral';
+
+  const match = rules.find(([, pattern]) => pattern.test(text));
+  if (!match) return 'neutral';
+  return match[0] === 'agree' ? agreeExpression : match[0];
+}
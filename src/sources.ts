@@ -0,0 +1,55 @@
+/**
+ * Kuchi - Source Cards
+ * Tappable cards under the robot for the sources behind a search answer
+ */
+
+import { CitedSource, isWebUrl, sourceSite } from './search';
+
+export class SourceCards {
+  private container: HTMLElement;
+
+  constructor(containerId: string) {
+    const element = document.getElementById(containerId);
+    if (!element) {
+      throw new Error(`Element with id "${containerId}" not found`);
+    }
+    this.container = element;
+  }
+
+  /**
+   * Show cards for the given sources (hides the row when there are none)
+   */
+  show(sources: CitedSource[]): void {
+    const cards = sources.filter((source) => isWebUrl(source.url)).map((source) => this.createCard(source));
+    this.container.replaceChildren(...cards);
+    this.container.classList.toggle('hidden', cards.length === 0);
+  }
+
+  clear(): void {
+    this.show([]);
+  }
+
+  private createCard(source: CitedSource): HTMLAnchorElement {
+    const card = document.createElement('a');
+    card.className = 'source-card';
+    card.href = source.url;
+    card.target = '_blank';
+    card.rel = 'noopener noreferrer';
+    card.title = source.snippet || source.title;
+
+    const index = document.createElement('span');
+    index.className = 'source-card-index';
+    index.textContent = String(source.index);
+
+    const title = document.createElement('span');
+    title.className = 'source-card-title';
+    title.textContent = source.title;
+
+    const site = document.createElement('span');
+    site.className = 'source-card-site';
+    site.textContent = sourceSite(source.url);
+
+    card.append(index, title, site);
+    return card;
+  }
+}
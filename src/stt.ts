@@ -0,0 +1,562 @@
+/**
+ * Kuchi - Speech to Text
+ * Browser speech recognition, or recorded audio sent to a Whisper-compatible transcription endpoint
+ */
+
+import { rmsLevel } from './vad';
+import { LanguageCode, findLanguage } from './language';
+
+export interface STTCallbacks {
+  onStart: () => void;
+  onEnd: () => void;
+  onResult: (text: string) => void;
+  onInterimResult: (text: string) => void; // Only providers with live results call this
+  onTranscribing: () => void;              // Recording finished, waiting for the transcript
+  onError: (message: string) => void;
+}
+
+export interface STTProvider {
+  readonly name: string;
+  start(): void;
+  stop(): void;                             // Stop listening, still delivering what was said
+  setContinuous(enabled: boolean): void;    // Keep listening across utterances (hands-free mode)
+  setLanguage(language: LanguageCode, autoDetect: boolean): void; // Whisper can detect it, the browser can't
+  destroy(): void;                          // Stop without any more callbacks
+}
+
+export type STTProviderId = 'browser' | 'openai' | 'whisper';
+
+export interface STTConfig {
+  provider: STTProviderId;
+  endpoint: string;   // Transcription URL, e.g. https://api.openai.com/v1/audio/transcriptions
+  model: string;
+  apiKey: string;     // OpenAI uses the OpenAI API key; local servers usually need none
+}
+
+export interface STTPreset {
+  id: STTProviderId;
+  name: string;
+  endpoint: string;
+  model: string;
+}
+
+export const STT_STORAGE_KEY = 'kuchi_stt_provider';
+export const STT_API_KEY_STORAGE_KEY = 'kuchi_stt_api_key';
+export const OPENAI_TRANSCRIPTION_URL = 'https://api.openai.com/v1/audio/transcriptions';
+
+export const STT_PRESETS: STTPreset[] = [
+  { id: 'browser', name: 'Browser (Chrome, Edge, Safari)', endpoint: '', model: '' },
+  { id: 'openai', name: 'OpenAI Whisper', endpoint: OPENAI_TRANSCRIPTION_URL, model: 'whisper-1' },
+  {
+    id: 'whisper',
+    name: 'Whisper-compatible server',
+    endpoint: 'http://localhost:8080/v1/audio/transcriptions',
+    model: 'whisper-1',
+  },
+];
+
+export function findSTTPreset(id: string): STTPreset {
+  return STT_PRESETS.find((preset) => preset.id === id) || STT_PRESETS[0];
+}
+
+export function configFromSTTPreset(id: string, apiKey: string = ''): STTConfig {
+  const preset = findSTTPreset(id);
+  return { provider: preset.id, endpoint: preset.endpoint, model: preset.model, apiKey };
+}
+
+export function isBrowserRecognitionSupported(): boolean {
+  return 'SpeechRecognition' in window || 'webkitSpeechRecognition' in window;
+}
+
+export function isRecordingSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+}
+
+/**
+ * Whether this browser can run the configured provider
+ */
+export function isSTTSupported(config: STTConfig): boolean {
+  return config.provider === 'browser' ? isBrowserRecognitionSupported() : isRecordingSupported();
+}
+
+/**
+ * Check a config is complete enough to listen with
+ * Returns an error message, or null if it's usable
+ */
+export function validateSTTConfig(config: STTConfig): string | null {
+  if (config.provider === 'browser') {
+    return isBrowserRecognitionSupported()
+      ? null
+      : 'This browser has no speech recognition - pick a Whisper option instead';
+  }
+
+  if (!isRecordingSupported()) {
+    return 'This browser cannot record audio for Whisper';
+  }
+
+  try {
+    const url = new URL(config.endpoint);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return 'Transcription URL must start with http:// or https://';
+    }
+  } catch {
+    return 'Invalid transcription URL';
+  }
+
+  if (!config.model.trim()) {
+    return 'Please enter a transcription model';
+  }
+
+  if (config.provider === 'openai' && !config.apiKey) {
+    return 'OpenAI Whisper needs an OpenAI API key';
+  }
+
+  return null;
+}
+
+// ==================== Browser (Web Speech API) ====================
+
+const RECOGNITION_ERRORS: Record<string, string> = {
+  'no-speech': 'No speech detected',
+  'audio-capture': 'Microphone not available',
+  'not-allowed': 'Microphone permission denied',
+  'network': 'Connection error',
+  'service-not-allowed': 'Speech service blocked',
+};
+
+export class BrowserSpeechRecognition implements STTProvider {
+  readonly name = 'Browser speech recognition';
+  private recognition: SpeechRecognition;
+  private callbacks: STTCallbacks;
+  private continuous = false;
+
+  constructor(callbacks: STTCallbacks) {
+    const SpeechRecognitionClass = window.SpeechRecognition || (window as any).webkitSpeechRecognition;
+    if (!SpeechRecognitionClass) {
+      throw new Error('Speech recognition not supported');
+    }
+
+    this.callbacks = callbacks;
+    this.recognition = new SpeechRecognitionClass();
+    this.recognition.continuous = false;
+    this.recognition.interimResults = false;
+    this.recognition.maxAlternatives = 1;
+    this.recognition.lang = 'en-US';
+
+    this.recognition.onstart = () => this.callbacks.onStart();
+    this.recognition.onend = () => this.callbacks.onEnd();
+
+    this.recognition.onresult = (event: SpeechRecognitionEvent) => {
+      // Continuous recognition reports several results per session, only the new ones matter
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        const transcript = result[0].transcript.trim();
+        if (!transcript) continue;
+
+        if (result.isFinal) {
+          this.callbacks.onResult(transcript);
+        } else {
+          this.callbacks.onInterimResult(transcript);
+        }
+      }
+    };
+
+    this.recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
+      // Stopped on purpose - onend follows
+      if (event.error === 'aborted') return;
+
+      // Silence is normal while waiting for the wake word - onend restarts recognition
+      if (this.continuous && event.error === 'no-speech') return;
+
+      this.callbacks.onError(RECOGNITION_ERRORS[event.error] || `Error: ${event.error}`);
+    };
+  }
+
+  start(): void {
+    try {
+      this.recognition.start();
+    } catch (error) {
+      this.callbacks.onError(`Failed to start listening: ${error}`);
+    }
+  }
+
+  stop(): void {
+    this.recognition.stop();
+  }
+
+  setContinuous(enabled: boolean): void {
+    this.continuous = enabled;
+    this.recognition.continuous = enabled;
+    this.recognition.interimResults = enabled;
+  }
+
+  /**
+   * Takes effect from the next start() - in auto mode this is the language of the last turn
+   */
+  setLanguage(language: LanguageCode): void {
+    this.recognition.lang = findLanguage(language).locale;
+  }
+
+  destroy(): void {
+    this.recognition.onstart = null;
+    this.recognition.onend = null;
+    this.recognition.onresult = null;
+    this.recognition.onerror = null;
+    this.recognition.abort();
+  }
+}
+
+// ==================== Whisper (recorded audio) ====================
+
+const FRAME_MS = 50;
+const CALIBRATION_MS = 200;     // Noise floor measured when the mic opens
+const SPEECH_THRESHOLD = 0.02;  // Minimum RMS level that counts as speech
+const NOISE_RATIO = 2.5;        // Speech must also be this many times louder than the noise floor
+const MIN_SPEECH_MS = 300;      // Shorter sounds (clicks, bumps) don't count as speech
+const END_SILENCE_MS = 1200;    // Pause that ends an utterance
+const NO_SPEECH_MS = 8000;      // Give up (or start a fresh recording in continuous mode)
+const MAX_UTTERANCE_MS = 30000;
+
+const RECORDING_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+interface Recording {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+}
+
+function microphoneError(error: any): string {
+  if (error?.name === 'NotAllowedError') return 'Microphone permission denied';
+  if (error?.name === 'NotFoundError') return 'Microphone not available';
+  return `Microphone error: ${error?.message || error}`;
+}
+
+function fileExtension(mimeType: string): string {
+  if (mimeType.includes('ogg')) return 'ogg';
+  if (mimeType.includes('mp4')) return 'mp4';
+  return 'webm';
+}
+
+/**
+ * Records one utterance at a time (ended by a pause) and sends it to /v1/audio/transcriptions
+ * Works with OpenAI and local servers such as whisper.cpp
+ */
+export class WhisperRecognition implements STTProvider {
+  readonly name: string;
+  private config: STTConfig;
+  private callbacks: STTCallbacks;
+  private continuous = false;
+  private language: LanguageCode | null = null; // null lets the server detect it
+  private listening = false;
+  private opening = false; // Waiting for mic permission
+  private session = 0; // Bumped when the mic is released so late callbacks are ignored
+  private stream: MediaStream | null = null;
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private timer: number | null = null;
+  private recording: Recording | null = null;
+  private noiseFloor = 0;
+  private openMs = 0;
+  private segmentMs = 0;
+  private speechMs = 0;
+  private silenceMs = 0;
+  private heardSpeech = false;
+
+  constructor(config: STTConfig, callbacks: STTCallbacks) {
+    this.config = config;
+    this.callbacks = callbacks;
+    this.name = findSTTPreset(config.provider).name;
+  }
+
+  start(): void {
+    if (this.listening) return;
+    this.listening = true;
+    this.opening = true;
+
+    const session = ++this.session;
+    this.open(session).catch((error) => {
+      if (session !== this.session) return;
+      this.opening = false;
+      this.release();
+      this.listening = false;
+      this.callbacks.onError(microphoneError(error));
+      this.callbacks.onEnd();
+    });
+  }
+
+  private async open(session: number): Promise<void> {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: true, noiseSuppression: true },
+    });
+
+    if (session !== this.session) {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+    this.opening = false;
+
+    const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+    const context = new AudioContextClass();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    context.createMediaStreamSource(stream).connect(analyser);
+
+    this.stream = stream;
+    this.context = context;
+    this.analyser = analyser;
+    this.noiseFloor = 0;
+    this.openMs = 0;
+
+    this.startRecording();
+    const samples = new Float32Array(analyser.fftSize);
+    this.timer = window.setInterval(() => this.checkFrame(samples), FRAME_MS);
+    this.callbacks.onStart();
+  }
+
+  private startRecording(): void {
+    if (!this.stream) return;
+
+    const mimeType = RECORDING_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(this.stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.start();
+
+    this.recording = { recorder, chunks };
+    this.segmentMs = 0;
+    this.speechMs = 0;
+    this.silenceMs = 0;
+    this.heardSpeech = false;
+  }
+
+  /**
+   * Stop the current recording and collect its audio
+   */
+  private finishRecording(): Promise<Blob | null> {
+    const recording = this.recording;
+    this.recording = null;
+    if (!recording || recording.recorder.state === 'inactive') {
+      return Promise.resolve(null);
+    }
+
+    const { recorder, chunks } = recording;
+    return new Promise((resolve) => {
+      recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }));
+      recorder.stop();
+    });
+  }
+
+  private checkFrame(samples: Float32Array<ArrayBuffer>): void {
+    if (!this.analyser || !this.recording) return;
+
+    this.analyser.getFloatTimeDomainData(samples);
+    const level = rmsLevel(samples);
+
+    this.openMs += FRAME_MS;
+    if (this.openMs <= CALIBRATION_MS) {
+      this.noiseFloor = Math.max(this.noiseFloor, level);
+      return;
+    }
+
+    this.segmentMs += FRAME_MS;
+    if (level > Math.max(SPEECH_THRESHOLD, this.noiseFloor * NOISE_RATIO)) {
+      this.speechMs += FRAME_MS;
+      this.silenceMs = 0;
+      if (this.speechMs >= MIN_SPEECH_MS) this.heardSpeech = true;
+    } else {
+      this.speechMs = 0;
+      this.silenceMs += FRAME_MS;
+      if (!this.heardSpeech) {
+        this.noiseFloor = this.noiseFloor * 0.95 + level * 0.05;
+      }
+    }
+
+    if (this.heardSpeech && (this.silenceMs >= END_SILENCE_MS || this.segmentMs >= MAX_UTTERANCE_MS)) {
+      this.endUtterance();
+    } else if (!this.heardSpeech && this.segmentMs >= NO_SPEECH_MS) {
+      if (this.continuous) {
+        // Nothing said - drop the recording so silence isn't sent
+        this.finishRecording();
+        this.startRecording();
+      } else {
+        this.finishListening(false);
+        this.callbacks.onError('No speech detected');
+      }
+    }
+  }
+
+  /**
+   * The user paused: transcribe what they said, and keep listening in continuous mode
+   */
+  private endUtterance(): void {
+    if (!this.continuous) {
+      this.finishListening(true);
+      return;
+    }
+
+    const session = this.session;
+    this.finishRecording().then((audio) => {
+      if (audio) this.deliver(audio, session);
+    });
+    this.startRecording();
+  }
+
+  /**
+   * Release the mic, then transcribe the last utterance (if wanted) before reporting the end
+   */
+  private finishListening(transcribe: boolean): void {
+    const session = this.session;
+    const recorded = this.finishRecording();
+    this.release();
+
+    recorded
+      .then((audio) => (transcribe && audio ? this.deliver(audio, session) : undefined))
+      .finally(() => {
+        if (session !== this.session) return;
+        this.listening = false;
+        this.callbacks.onEnd();
+      });
+  }
+
+  private async deliver(audio: Blob, session: number): Promise<void> {
+    this.callbacks.onTranscribing();
+    try {
+      const text = await this.transcribe(audio);
+      if (session !== this.session) return;
+      if (text) {
+        this.callbacks.onResult(text);
+      } else if (!this.continuous) {
+        this.callbacks.onError('No speech detected');
+      }
+    } catch (error: any) {
+      if (session !== this.session) return;
+      console.error('🎙️ Transcription failed:', error);
+      this.callbacks.onError(`Transcription failed: ${error.message || error}`);
+    }
+  }
+
+  private async transcribe(audio: Blob): Promise<string> {
+    const form = new FormData();
+    form.append('file', audio, `speech.${fileExtension(audio.type)}`);
+    form.append('model', this.config.model);
+    form.append('response_format', 'json');
+    if (this.language) {
+      form.append('language', this.language);
+    }
+
+    const headers: Record<string, string> = {};
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    console.log(`🎙️ Transcribing ${audio.size} bytes with ${this.name}...`);
+    const response = await fetch(this.config.endpoint, { method: 'POST', headers, body: form });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const text = typeof data?.text === 'string' ? data.text.trim() : '';
+    console.log(`🎙️ Transcript: "${text}"`);
+    return text;
+  }
+
+  /**
+   * Close the mic (recording must already be finished)
+   */
+  private release(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    this.context?.close().catch(() => {});
+    this.context = null;
+    this.analyser = null;
+  }
+
+  stop(): void {
+    if (!this.listening) return;
+
+    if (this.opening) {
+      this.session++;
+      this.opening = false;
+      this.listening = false;
+      this.callbacks.onEnd();
+    } else if (this.stream) {
+      this.finishListening(this.heardSpeech);
+    }
+    // Otherwise the last utterance is being transcribed - onEnd follows
+  }
+
+  setContinuous(enabled: boolean): void {
+    this.continuous = enabled;
+  }
+
+  setLanguage(language: LanguageCode, autoDetect: boolean): void {
+    this.language = autoDetect ? null : language;
+  }
+
+  destroy(): void {
+    this.session++;
+    this.finishRecording();
+    this.release();
+    this.opening = false;
+    this.listening = false;
+  }
+}
+
+/**
+ * Create the configured provider (null if this browser can't run it)
+ */
+export function createSTTProvider(config: STTConfig, callbacks: STTCallbacks): STTProvider | null {
+  if (!isSTTSupported(config)) {
+    console.warn(`🎙️ ${findSTTPreset(config.provider).name} is not supported in this browser`);
+    return null;
+  }
+  return config.provider === 'browser'
+    ? new BrowserSpeechRecognition(callbacks)
+    : new WhisperRecognition(config, callbacks);
+}
+
+/**
+ * Load the saved STT config
+ * Defaults to the browser's recognition, or OpenAI Whisper where the browser has none (Firefox)
+ * OpenAI Whisper uses the OpenAI API key; other servers use their own optional key
+ */
+export function loadSTTConfig(openaiApiKey: string): STTConfig {
+  const sttKey = localStorage.getItem(STT_API_KEY_STORAGE_KEY) || '';
+
+  try {
+    const saved = localStorage.getItem(STT_STORAGE_KEY);
+    if (saved) {
+      const data = JSON.parse(saved);
+      const defaults = configFromSTTPreset(typeof data.provider === 'string' ? data.provider : 'browser');
+      return {
+        provider: defaults.provider,
+        endpoint: typeof data.endpoint === 'string' && data.endpoint ? data.endpoint : defaults.endpoint,
+        model: typeof data.model === 'string' && data.model ? data.model : defaults.model,
+        apiKey: defaults.provider === 'openai' ? openaiApiKey : defaults.provider === 'whisper' ? sttKey : '',
+      };
+    }
+  } catch (error) {
+    console.warn('🎙️ Failed to load speech recognition config:', error);
+  }
+
+  return isBrowserRecognitionSupported()
+    ? configFromSTTPreset('browser')
+    : configFromSTTPreset('openai', openaiApiKey);
+}
+
+/**
+ * Save the STT config (the key is stored separately so backups can leave it out)
+ */
+export function saveSTTConfig(config: STTConfig): void {
+  const { apiKey, ...rest } = config;
+  localStorage.setItem(STT_STORAGE_KEY, JSON.stringify(rest));
+  if (config.provider === 'whisper') {
+    localStorage.setItem(STT_API_KEY_STORAGE_KEY, apiKey);
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Kuchi - Tool Registry
+ * Each tool declares its name, JSON schema, handler and result type
+ * Tools can be registered or unregistered at runtime
+ */
+
+import type { ChatCompletionTool } from 'openai/resources/chat/completions';
+
+/**
+ * How the agent uses a tool's output:
+ * - 'context': fed back to the model, which writes the spoken answer
+ * - 'reply':   returned to the app as-is as the final answer
+ */
+export type ToolResultType = 'context' | 'reply';
+
+export interface ToolParameters {
+  type: 'object';
+  properties: Record<string, unknown>;
+  required?: string[];
+}
+
+export interface ToolResult {
+  output: string;
+  historyText?: string; // What gets stored in conversation history (defaults to output)
+}
+
+export interface KuchiTool<TArgs = any> {
+  name: string;
+  description: string;
+  parameters: ToolParameters;
+  resultType: ToolResultType;
+  sequential?: boolean; // Run alone and in call order (for tools with side effects)
+  handler: (args: TArgs) => Promise<string | ToolResult> | string | ToolResult;
+}
+
+export interface ToolCallRequest {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export interface ToolCallResult extends ToolResult {
+  id: string;
+  name: string;
+  resultType: ToolResultType;
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, KuchiTool>();
+
+  /**
+   * Register a tool (replaces any existing tool with the same name)
+   */
+  register(tool: KuchiTool): void {
+    if (this.tools.has(tool.name)) {
+      console.log(`🧰 Replacing tool: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+    console.log(`🧰 Registered tool: ${tool.name}`);
+  }
+
+  /**
+   * Unregister a tool by name
+   */
+  unregister(name: string): boolean {
+    const removed = this.tools.delete(name);
+    if (removed) {
+      console.log(`🧰 Unregistered tool: ${name}`);
+    }
+    return removed;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get(name: string): KuchiTool | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): KuchiTool[] {
+    return [...this.tools.values()];
+  }
+
+  /**
+   * Convert registered tools to the OpenAI function-calling format
+   */
+  toOpenAITools(): ChatCompletionTool[] {
+    return this.list().map((tool) => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters as unknown as Record<string, unknown>,
+      },
+    }));
+  }
+
+  /**
+   * Run a tool with the raw JSON arguments from the model
+   */
+  async execute(name: string, rawArgs: string): Promise<ToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return { output: `Unknown tool: ${name}` };
+    }
+
+    let args: unknown = {};
+    try {
+      args = rawArgs ? JSON.parse(rawArgs) : {};
+    } catch (error) {
+      console.error(`🧰 Invalid arguments for ${name}:`, rawArgs);
+      return { output: `Invalid arguments for ${name}.` };
+    }
+
+    try {
+      const result = await tool.handler(args);
+      return typeof result === 'string' ? { output: result } : result;
+    } catch (error: any) {
+      console.error(`🧰 Tool ${name} failed:`, error);
+      return { output: `${name} failed: ${error.message || error}` };
+    }
+  }
+
+  /**
+   * Run every tool call from one model step
+   * Independent calls run in parallel; sequential tools run one at a time in call order
+   * Results come back in the same order as the calls
+   */
+  async executeAll(calls: ToolCallRequest[]): Promise<ToolCallResult[]> {
+    const results: ToolCallResult[] = new Array(calls.length);
+
+    const run = async (call: ToolCallRequest, index: number): Promise<void> => {
+      const result = await this.execute(call.name, call.arguments);
+      results[index] = {
+        ...result,
+        id: call.id,
+        name: call.name,
+        resultType: this.tools.get(call.name)?.resultType ?? 'context',
+      };
+    };
+
+    const isSequential = (call: ToolCallRequest) => this.tools.get(call.name)?.sequential === true;
+
+    await Promise.all(
+      calls.map((call, index) => (isSequential(call) ? null : run(call, index)))
+    );
+
+    for (let index = 0; index < calls.length; index++) {
+      if (isSequential(calls[index])) {
+        await run(calls[index], index);
+      }
+    }
+
+    return results;
+  }
+}
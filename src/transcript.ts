@@ -0,0 +1,218 @@
+/**
+ * Kuchi - Transcript Panel
+ * Browse, search, resume and delete past conversations
+ */
+
+import { ConversationStore, ConversationSession } from './history';
+import { isWebUrl } from './search';
+
+export interface TranscriptCallbacks {
+  onResume?: (session: ConversationSession) => void;
+  onDelete?: (session: ConversationSession) => void;
+  onNewSession?: () => void;
+}
+
+/**
+ * Create an element with an optional class and text (text is never parsed as HTML)
+ */
+function el<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  className?: string,
+  text?: string
+): HTMLElementTagNameMap[K] {
+  const element = document.createElement(tag);
+  if (className) element.className = className;
+  if (text !== undefined) element.textContent = text;
+  return element;
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export class TranscriptPanel {
+  private modal: HTMLElement;
+  private content: HTMLElement;
+  private store: ConversationStore;
+  private callbacks: TranscriptCallbacks;
+  private currentSessionId: string | null = null;
+  private query = '';
+  private searchTimer: number | null = null;
+
+  constructor(modalId: string, store: ConversationStore, callbacks: TranscriptCallbacks = {}) {
+    const element = document.getElementById(modalId);
+    if (!element) {
+      throw new Error(`Element with id "${modalId}" not found`);
+    }
+    this.modal = element;
+    this.content = this.modal.querySelector('.modal-content') as HTMLElement;
+    this.store = store;
+    this.callbacks = callbacks;
+
+    this.modal.addEventListener('click', (e) => {
+      if (e.target === this.modal) {
+        this.close();
+      }
+    });
+  }
+
+  /**
+   * Open the panel on the session list
+   * @param currentSessionId - Session that is active right now (marked in the list)
+   */
+  open(currentSessionId: string | null): void {
+    this.currentSessionId = currentSessionId;
+    this.modal.classList.remove('hidden');
+    this.showList();
+  }
+
+  close(): void {
+    this.modal.classList.add('hidden');
+  }
+
+  isOpen(): boolean {
+    return !this.modal.classList.contains('hidden');
+  }
+
+  /**
+   * Session list with search
+   */
+  private async showList(): Promise<void> {
+    this.content.innerHTML = '';
+    this.content.appendChild(el('h2', undefined, 'Conversations'));
+
+    const search = el('input', 'transcript-search');
+    search.type = 'search';
+    search.placeholder = 'Search conversations...';
+    search.value = this.query;
+    search.addEventListener('input', () => {
+      this.query = search.value;
+      if (this.searchTimer) clearTimeout(this.searchTimer);
+      this.searchTimer = window.setTimeout(() => this.renderSessions(list), 200);
+    });
+    this.content.appendChild(search);
+
+    const list = el('div', 'transcript-list');
+    this.content.appendChild(list);
+
+    const actions = el('div', 'modal-actions');
+    const newBtn = el('button', 'btn-primary', 'New conversation');
+    newBtn.addEventListener('click', () => {
+      this.callbacks.onNewSession?.();
+      this.close();
+    });
+    const closeBtn = el('button', 'btn-secondary', 'Close');
+    closeBtn.addEventListener('click', () => this.close());
+    actions.append(newBtn, closeBtn);
+    this.content.appendChild(actions);
+
+    await this.renderSessions(list);
+  }
+
+  private async renderSessions(list: HTMLElement): Promise<void> {
+    let sessions: ConversationSession[];
+    try {
+      sessions = await this.store.search(this.query);
+    } catch (error: any) {
+      console.error('📜 Failed to load sessions:', error);
+      list.replaceChildren(el('p', 'transcript-empty', `Could not load history: ${error.message || error}`));
+      return;
+    }
+
+    if (sessions.length === 0) {
+      list.replaceChildren(
+        el('p', 'transcript-empty', this.query ? 'No conversations match your search.' : 'No saved conversations yet.')
+      );
+      return;
+    }
+
+    list.replaceChildren(
+      ...sessions.map((session) => {
+        const item = el('button', 'transcript-item');
+        if (session.id === this.currentSessionId) {
+          item.classList.add('current');
+        }
+        item.appendChild(el('span', 'transcript-title', session.title));
+        item.appendChild(
+          el('span', 'transcript-meta', `${formatTime(session.updated)} · ${session.entries.length} messages`)
+        );
+        item.addEventListener('click', () => this.showSession(session));
+        return item;
+      })
+    );
+  }
+
+  /**
+   * Full transcript of one session
+   */
+  private showSession(session: ConversationSession): void {
+    this.content.innerHTML = '';
+    this.content.appendChild(el('h2', undefined, session.title));
+    this.content.appendChild(el('p', 'transcript-meta', `Started ${formatTime(session.started)}`));
+
+    const transcript = el('div', 'transcript-entries');
+    session.entries.forEach((entry) => {
+      const row = el('div', `transcript-entry ${entry.role}`);
+
+      const header = el('div', 'transcript-meta', `${entry.role === 'user' ? 'You' : 'Kuchi'} · ${formatTime(entry.timestamp)}`);
+      if (entry.expression) {
+        header.appendChild(el('span', 'transcript-expression', entry.expression));
+      }
+      if (entry.interrupted) {
+        header.appendChild(el('span', 'transcript-expression', 'interrupted'));
+      }
+      row.appendChild(header);
+      row.appendChild(el('div', 'transcript-text', entry.text));
+
+      entry.toolCalls?.forEach((call) => {
+        const tool = el('details', 'transcript-tool');
+        tool.appendChild(el('summary', undefined, `🧰 ${call.name}(${call.arguments})`));
+        tool.appendChild(el('pre', undefined, call.result));
+        row.appendChild(tool);
+      });
+
+      if (entry.sources?.length) {
+        const sources = el('div', 'transcript-sources');
+        entry.sources.forEach((source) => {
+          if (!isWebUrl(source.url)) return;
+          const link = el('a', undefined, `${source.index}. ${source.title}`);
+          link.href = source.url;
+          link.target = '_blank';
+          link.rel = 'noopener noreferrer';
+          sources.appendChild(link);
+        });
+        row.appendChild(sources);
+      }
+
+      transcript.appendChild(row);
+    });
+    this.content.appendChild(transcript);
+
+    const actions = el('div', 'modal-actions');
+    const resumeBtn = el('button', 'btn-primary', 'Resume');
+    resumeBtn.addEventListener('click', () => {
+      this.callbacks.onResume?.(session);
+      this.close();
+    });
+    const deleteBtn = el('button', 'btn-secondary', 'Delete');
+    deleteBtn.addEventListener('click', async () => {
+      if (!confirm(`Delete "${session.title}"?`)) return;
+      try {
+        await this.store.delete(session.id);
+        this.callbacks.onDelete?.(session);
+        this.showList();
+      } catch (error: any) {
+        alert(`Delete failed: ${error.message || error}`);
+      }
+    });
+    const backBtn = el('button', 'btn-secondary', 'Back');
+    backBtn.addEventListener('click', () => this.showList());
+    actions.append(resumeBtn, deleteBtn, backBtn);
+    this.content.appendChild(actions);
+  }
+}
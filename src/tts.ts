@@ -0,0 +1,124 @@
+/**
+ * Kuchi - Speech Output Settings
+ * TTS model, speed and pitch, and how the voice follows the face while Kuchi talks
+ */
+
+import type { Expression } from './robot';
+
+export type OpenAITTSModel = 'tts-1' | 'tts-1-hd' | 'gpt-4o-mini-tts';
+
+export interface TTSSettings {
+  model: OpenAITTSModel;
+  speed: number;          // OpenAI TTS speed (0.25 - 4.0)
+  instructions: string;   // How to speak, for gpt-4o-mini-tts (e.g. "Speak like a cheerful radio host")
+  browserRate: number;    // Browser TTS rate (0.5 - 2.0)
+  browserPitch: number;   // Browser TTS pitch (0 - 2.0)
+  expressive: boolean;    // Vary pace, pitch and tone with the expression on the face
+  nativeAccent: boolean;  // Voice non-English replies with gpt-4o-mini-tts, which can take an accent
+}
+
+export interface Prosody {
+  rate: number;   // Multiplies the speed / browser rate
+  pitch: number;  // Multiplies the browser pitch (OpenAI voices only get the tone)
+  tone: string;   // Told to gpt-4o-mini-tts: "Sound <tone>."
+}
+
+export const TTS_SETTINGS_STORAGE_KEY = 'kuchi_tts_settings';
+
+export const OPENAI_TTS_MODELS: { id: OpenAITTSModel; name: string }[] = [
+  { id: 'tts-1', name: 'tts-1 (Fast)' },
+  { id: 'tts-1-hd', name: 'tts-1-hd (Higher quality)' },
+  { id: 'gpt-4o-mini-tts', name: 'gpt-4o-mini-tts (Follows instructions)' },
+];
+
+export const DEFAULT_TTS_SETTINGS: TTSSettings = {
+  model: 'tts-1',
+  speed: 1.0,
+  instructions: '',
+  browserRate: 0.95,
+  browserPitch: 1.05,
+  expressive: true,
+  nativeAccent: false,
+};
+
+const NEUTRAL_PROSODY: Prosody = { rate: 1, pitch: 1, tone: '' };
+
+// Expressions without an entry are spoken neutrally
+export const EXPRESSION_PROSODY: Partial<Record<Expression, Prosody>> = {
+  happy: { rate: 1.03, pitch: 1.05, tone: 'warm and cheerful' },
+  glee: { rate: 1.1, pitch: 1.1, tone: 'delighted' },
+  love: { rate: 0.95, pitch: 1.05, tone: 'tender and affectionate' },
+  excited: { rate: 1.15, pitch: 1.15, tone: 'excited and energetic' },
+  awe: { rate: 0.92, pitch: 1.05, tone: 'amazed' },
+  starry: { rate: 1.05, pitch: 1.1, tone: 'starstruck' },
+  mischievous: { rate: 1.0, pitch: 1.05, tone: 'playful and teasing' },
+  sad: { rate: 0.85, pitch: 0.9, tone: 'sad and subdued' },
+  crying: { rate: 0.8, pitch: 0.9, tone: 'tearful' },
+  worried: { rate: 0.95, pitch: 0.95, tone: 'worried' },
+  angry: { rate: 1.05, pitch: 0.9, tone: 'stern and annoyed' },
+  furious: { rate: 1.1, pitch: 0.85, tone: 'angry' },
+  scared: { rate: 1.1, pitch: 1.1, tone: 'nervous' },
+  frustrated: { rate: 1.0, pitch: 0.92, tone: 'frustrated' },
+  surprised: { rate: 1.08, pitch: 1.15, tone: 'surprised' },
+  confused: { rate: 0.95, pitch: 1.0, tone: 'puzzled' },
+  skeptic: { rate: 0.95, pitch: 0.95, tone: 'skeptical' },
+  unimpressed: { rate: 0.92, pitch: 0.92, tone: 'flat and unimpressed' },
+  annoyed: { rate: 1.0, pitch: 0.92, tone: 'mildly annoyed' },
+  sleepy: { rate: 0.8, pitch: 0.9, tone: 'sleepy, with a slow drawl' },
+  drowsy: { rate: 0.85, pitch: 0.9, tone: 'drowsy' },
+  focused: { rate: 0.97, pitch: 1.0, tone: 'calm and focused' },
+  pleading: { rate: 0.95, pitch: 1.1, tone: 'pleading' },
+};
+
+/**
+ * Prosody for the expression Kuchi is showing (neutral when there is none)
+ * @param intensity - How strongly the emotion comes through (0-1), scales the change
+ */
+export function prosodyFor(expression: Expression | null, intensity: number = 1): Prosody {
+  const prosody = (expression && EXPRESSION_PROSODY[expression]) || NEUTRAL_PROSODY;
+  if (intensity >= 1) return prosody;
+
+  return {
+    rate: 1 + (prosody.rate - 1) * intensity,
+    pitch: 1 + (prosody.pitch - 1) * intensity,
+    tone: prosody.tone && intensity < 0.5 ? `slightly ${prosody.tone}` : prosody.tone,
+  };
+}
+
+export function clampSpeed(speed: number): number {
+  return Math.max(0.25, Math.min(4.0, speed));
+}
+
+function readNumber(value: unknown, min: number, max: number, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback;
+}
+
+/**
+ * Load the saved TTS settings
+ */
+export function loadTTSSettings(): TTSSettings {
+  try {
+    const saved = localStorage.getItem(TTS_SETTINGS_STORAGE_KEY);
+    if (saved) {
+      const data = JSON.parse(saved);
+      const defaults = DEFAULT_TTS_SETTINGS;
+      return {
+        model: OPENAI_TTS_MODELS.some((model) => model.id === data.model) ? data.model : defaults.model,
+        speed: readNumber(data.speed, 0.25, 4.0, defaults.speed),
+        instructions: typeof data.instructions === 'string' ? data.instructions : defaults.instructions,
+        browserRate: readNumber(data.browserRate, 0.5, 2.0, defaults.browserRate),
+        browserPitch: readNumber(data.browserPitch, 0, 2.0, defaults.browserPitch),
+        expressive: data.expressive !== false,
+        nativeAccent: data.nativeAccent === true,
+      };
+    }
+  } catch (error) {
+    console.warn('🔊 Failed to load TTS settings:', error);
+  }
+
+  return { ...DEFAULT_TTS_SETTINGS };
+}
+
+export function saveTTSSettings(settings: TTSSettings): void {
+  localStorage.setItem(TTS_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,125 @@
+/**
+ * Kuchi - Speech Cache
+ * Keeps generated TTS audio in IndexedDB, keyed by a hash of the request,
+ * so repeated lines play without another API call (and without the network)
+ */
+
+interface CachedSpeech {
+  key: string;
+  text: string;
+  audio: Blob;
+  size: number;
+  lastUsed: number;
+}
+
+const DB_NAME = 'kuchi_tts_cache';
+const DB_VERSION = 1;
+const SPEECH_STORE = 'speech';
+
+const MAX_ENTRIES = 300;
+const MAX_BYTES = 25 * 1024 * 1024;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Content address of a TTS request: SHA-256 of everything that changes the audio
+ * (text, voice, speed, model and accent instructions)
+ */
+export async function speechCacheKey(request: Record<string, unknown>): Promise<string> {
+  const sorted = Object.keys(request)
+    .sort()
+    .map((name) => [name, request[name]]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(sorted)));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export class SpeechCache {
+  private db: Promise<IDBDatabase> | null = null;
+
+  static isSupported(): boolean {
+    return 'indexedDB' in window && !!window.crypto?.subtle;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        if (!SpeechCache.isSupported()) {
+          reject(new Error('Speech cache not supported'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(SPEECH_STORE)) {
+            const store = db.createObjectStore(SPEECH_STORE, { keyPath: 'key' });
+            store.createIndex('lastUsed', 'lastUsed');
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // Allow a retry after a failed open
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(SPEECH_STORE, mode).objectStore(SPEECH_STORE);
+  }
+
+  /**
+   * Cached audio for a key, marking it as recently used
+   */
+  async get(key: string): Promise<Blob | null> {
+    const store = await this.store('readwrite');
+    const entry: CachedSpeech | undefined = await promisify(store.get(key));
+    if (!entry) return null;
+
+    entry.lastUsed = Date.now();
+    store.put(entry);
+    return entry.audio;
+  }
+
+  async has(key: string): Promise<boolean> {
+    const store = await this.store('readonly');
+    return (await promisify(store.count(key))) > 0;
+  }
+
+  async put(key: string, text: string, audio: Blob): Promise<void> {
+    const store = await this.store('readwrite');
+    await promisify(store.put({ key, text, audio, size: audio.size, lastUsed: Date.now() } as CachedSpeech));
+    await this.evict();
+  }
+
+  /**
+   * Drop least recently used entries until the cache is within its limits
+   */
+  private async evict(): Promise<void> {
+    const store = await this.store('readwrite');
+    const entries: CachedSpeech[] = await promisify(store.index('lastUsed').getAll());
+
+    let count = entries.length;
+    let bytes = entries.reduce((total, entry) => total + entry.size, 0);
+
+    for (const entry of entries) {
+      if (count <= MAX_ENTRIES && bytes <= MAX_BYTES) break;
+      store.delete(entry.key);
+      count--;
+      bytes -= entry.size;
+      console.log(`🔊 Evicted cached speech: "${entry.text.slice(0, 40)}"`);
+    }
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Kuchi - Voice Activity Detection
+ * Energy-based speech detection on the mic stream, used to interrupt Kuchi while it talks
+ */
+
+export interface VADOptions {
+  onSpeechStart: () => void;
+  threshold?: number;    // Minimum RMS level (0-1) that counts as speech (default 0.04)
+  noiseRatio?: number;   // Speech must also be this many times louder than the noise floor (default 3)
+  minSpeechMs?: number;  // How long the level must stay up before it counts (default 250)
+}
+
+const FRAME_MS = 50;
+const CALIBRATION_MS = 300; // Noise floor (room noise plus speaker echo) measured at start
+
+/**
+ * Loudness (RMS, 0-1) of one frame of time-domain samples
+ */
+export function rmsLevel(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+export class VoiceActivityDetector {
+  private options: Required<VADOptions>;
+  private stream: MediaStream | null = null;
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private timer: number | null = null;
+  private starting: Promise<void> | null = null;
+  private session = 0; // Bumped by stop() so a start() still waiting for the mic gives up
+  private noiseFloor = 0;
+  private elapsedMs = 0;
+  private speechMs = 0;
+
+  constructor(options: VADOptions) {
+    this.options = {
+      threshold: 0.04,
+      noiseRatio: 3,
+      minSpeechMs: 250,
+      ...options,
+    };
+  }
+
+  static isSupported(): boolean {
+    return !!navigator.mediaDevices?.getUserMedia && !!(window.AudioContext || window.webkitAudioContext);
+  }
+
+  /**
+   * Open the mic and start watching for speech (fires onSpeechStart once)
+   */
+  start(): Promise<void> {
+    if (this.timer !== null) return Promise.resolve();
+    if (!this.starting) {
+      this.starting = this.open().finally(() => {
+        this.starting = null;
+      });
+    }
+    return this.starting;
+  }
+
+  private async open(): Promise<void> {
+    const session = this.session;
+
+    // Echo cancellation keeps Kuchi's own voice from counting as speech
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: false },
+    });
+
+    if (session !== this.session) {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+
+    const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+    const context = new AudioContextClass();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    context.createMediaStreamSource(stream).connect(analyser);
+
+    this.stream = stream;
+    this.context = context;
+    this.analyser = analyser;
+    this.noiseFloor = 0;
+    this.elapsedMs = 0;
+    this.speechMs = 0;
+
+    const samples = new Float32Array(analyser.fftSize);
+    this.timer = window.setInterval(() => this.checkFrame(samples), FRAME_MS);
+    console.log('✋ Voice activity detection started');
+  }
+
+  private checkFrame(samples: Float32Array<ArrayBuffer>): void {
+    if (!this.analyser) return;
+
+    this.analyser.getFloatTimeDomainData(samples);
+    const level = rmsLevel(samples);
+
+    this.elapsedMs += FRAME_MS;
+    if (this.elapsedMs <= CALIBRATION_MS) {
+      this.noiseFloor = Math.max(this.noiseFloor, level);
+      return;
+    }
+
+    const speechLevel = Math.max(this.options.threshold, this.noiseFloor * this.options.noiseRatio);
+    if (level > speechLevel) {
+      this.speechMs += FRAME_MS;
+      if (this.speechMs >= this.options.minSpeechMs) {
+        console.log(`✋ Speech detected (level ${level.toFixed(3)}, floor ${this.noiseFloor.toFixed(3)})`);
+        this.stop();
+        this.options.onSpeechStart();
+      }
+    } else {
+      this.speechMs = 0;
+      // Follow slow changes in background noise
+      this.noiseFloor = this.noiseFloor * 0.95 + level * 0.05;
+    }
+  }
+
+  /**
+   * Stop watching and release the mic
+   */
+  stop(): void {
+    this.session++;
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    this.context?.close().catch(() => {});
+    this.context = null;
+    this.analyser = null;
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+}
@@ -1,25 +1,69 @@
 /**
- * Voice Manager using Web Speech API + OpenAI TTS
+ * Voice Manager using a pluggable STT provider + OpenAI TTS
  * Handles speech recognition (STT) and synthesis (TTS)
  * Uses OpenAI TTS for high-quality voice output on all devices
  * 
  * iOS FIX: Uses pre-warmed audio element pool to maintain user gesture context
  */
 
+import { STTConfig, STTProvider, configFromSTTPreset, createSTTProvider } from './stt';
+import { LanguageCode, LanguageInfo, detectLanguage, findLanguage } from './language';
+import { SpeechCache, speechCacheKey } from './ttscache';
+import { SpeechLevelMeter } from './lipsync';
+import { DEFAULT_TTS_SETTINGS, TTSSettings, clampSpeed, prosodyFor } from './tts';
+import type { OpenAITTSModel, Prosody } from './tts';
+import type { Expression } from './robot';
+
 export interface VoiceCallbacks {
   onListeningStart?: () => void;
   onListeningEnd?: () => void;
   onSpeechResult?: (text: string) => void;
+  onInterimResult?: (text: string) => void; // Partial transcript (continuous mode only)
+  onTranscribing?: () => void;              // Audio recorded, waiting for the transcript
   onSpeakingStart?: () => void;
   onSpeakingEnd?: () => void;
+  onSpeechLevel?: (level: number) => void;  // Loudness of the speech playing now (0-1), for lip-sync
   onError?: (error: string) => void;
 }
 
 export type OpenAIVoice = 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer';
+export const OPENAI_VOICES: OpenAIVoice[] = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'];
 export type TTSProvider = 'openai' | 'browser';
 
+interface SpeechStream {
+  buffer: string;          // Text that doesn't end in a complete sentence yet
+  queue: string[];         // Complete sentences waiting to be spoken
+  started: boolean;        // onSpeakingStart has fired for this stream
+  spoken: string[];        // Sentences that have started playing
+  draining: Promise<void> | null;
+  model: OpenAITTSModel | null;  // Picked from the first sentence, so the whole reply keeps one voice
+  stopped: Promise<void>;  // Resolves when stopSpeaking() cancels the stream
+  stop: () => void;
+}
+
+/**
+ * Split off the complete sentences at the start of the text
+ * A sentence ends at . ! ? … or the Hindi danda (plus closing quotes/brackets) followed by whitespace,
+ * at a CJK full stop, or at a newline
+ */
+function splitSentences(text: string): { sentences: string[]; rest: string } {
+  const sentenceEnd = /^([\s\S]*?(?:[.!?…।]+["')\]]*(?=\s)|[。！？]+|\n))\s*/;
+  const sentences: string[] = [];
+  let rest = text;
+
+  let match = rest.match(sentenceEnd);
+  while (match) {
+    const sentence = match[1].trim();
+    rest = rest.slice(match[0].length);
+    if (sentence) sentences.push(sentence);
+    match = rest.match(sentenceEnd);
+  }
+
+  return { sentences, rest };
+}
+
 export class VoiceManager {
-  private recognition: SpeechRecognition | null = null;
+  private stt: STTProvider | null = null;
   private synthesis: SpeechSynthesis;
   private callbacks: VoiceCallbacks;
   private isListening = false;
@@ -29,28 +73,46 @@ export class VoiceManager {
   private voicesLoaded = false;
   private cachedVoices: SpeechSynthesisVoice[] = [];
   private preferredVoiceName: string = '';
+  private language: LanguageCode = 'en';
+  private autoDetectLanguage = false; // Whisper detects the spoken language
   
   // OpenAI TTS Configuration
   private ttsProvider: TTSProvider = 'browser';
   private openaiApiKey: string = '';
   private openaiVoice: OpenAIVoice = 'alloy';
   private openaiSpeed: number = 1.0;
+  private ttsSettings: TTSSettings = { ...DEFAULT_TTS_SETTINGS };
+  private speechExpression: Expression | null = null; // Face shown while speaking, shapes the prosody
+  private speechIntensity = 1;                         // How strongly that emotion comes through (0-1)
   
   // iOS Audio Fix: Pre-warmed audio element
   private audioElement: HTMLAudioElement | null = null;
   private audioUnlocked: boolean = false;
   private pendingAudioUrl: string | null = null;
 
+  // Sentence streaming: speak complete sentences while the reply is still generating
+  private speechStream: SpeechStream | null = null;
+
+  // Bumped by stopSpeaking() so audio that was still downloading doesn't play afterwards
+  private speechGeneration = 0;
+
+  // Drives the speaking animation from the audio (OpenAI) or word boundaries (browser)
+  private levelMeter: SpeechLevelMeter;
+
+  // Generated OpenAI speech, replayed for repeated lines
+  private speechCache: SpeechCache | null = SpeechCache.isSupported() ? new SpeechCache() : null;
+
   constructor(callbacks: VoiceCallbacks = {}, continuous: boolean = false) {
     this.callbacks = callbacks;
     this.synthesis = window.speechSynthesis;
-    this.continuousMode = continuous;
+    this.levelMeter = new SpeechLevelMeter((level) => this.callbacks.onSpeechLevel?.(level));
     
     // Detect iOS
     this.isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent) || 
                  (navigator.platform === 'MacIntel' && navigator.maxTouchPoints > 1);
     
-    this.initializeRecognition();
+    this.setSTTConfig(configFromSTTPreset('browser'));
+    this.setContinuousMode(continuous);
     this.preloadVoices();
     this.initializeAudioElement();
     
@@ -86,7 +148,7 @@ export class VoiceManager {
     this.ttsProvider = 'openai';
     this.openaiApiKey = apiKey;
     this.openaiVoice = voice;
-    this.openaiSpeed = Math.max(0.25, Math.min(4.0, speed));
+    this.openaiSpeed = clampSpeed(speed);
     console.log(`🔊 OpenAI TTS enabled - Voice: ${voice}, Speed: ${this.openaiSpeed}`);
   }
 
@@ -110,7 +172,29 @@ export class VoiceManager {
    * Set OpenAI speech speed
    */
   setOpenAISpeed(speed: number): void {
-    this.openaiSpeed = Math.max(0.25, Math.min(4.0, speed));
+    this.openaiSpeed = clampSpeed(speed);
+  }
+
+  /**
+   * Set the TTS model, instructions, browser rate/pitch and expressive prosody
+   * (the OpenAI speed comes from enableOpenAITTS / setOpenAISpeed)
+   */
+  setTTSSettings(settings: TTSSettings): void {
+    this.ttsSettings = { ...settings };
+    console.log(`🔊 TTS settings - Model: ${settings.model}, Expressive: ${settings.expressive}`);
+  }
+
+  /**
+   * Set the expression Kuchi shows while speaking, so the voice can match it
+   * Streamed sentences start on the next tick, so set it right after pushing the first one
+   */
+  setSpeechExpression(expression: Expression | null, intensity: number = 1): void {
+    this.speechExpression = expression;
+    this.speechIntensity = Math.max(0, Math.min(1, intensity));
+  }
+
+  private prosody(expression: Expression | null, intensity = this.speechIntensity): Prosody {
+    return prosodyFor(this.ttsSettings.expressive ? expression : null, intensity);
   }
 
   /**
@@ -159,85 +243,80 @@ export class VoiceManager {
 
   // ==================== Speech Recognition ====================
 
-  private initializeRecognition(): void {
-    const SpeechRecognition =
-      window.SpeechRecognition || (window as any).webkitSpeechRecognition;
-
-    if (!SpeechRecognition) {
-      console.warn('Speech recognition not supported');
-      return;
-    }
-
-    this.recognition = new SpeechRecognition();
-    this.recognition.continuous = false;
-    this.recognition.interimResults = false;
-    this.recognition.maxAlternatives = 1;
-    this.recognition.lang = 'en-US';
-
-    this.recognition.onstart = () => {
-      this.isListening = true;
-      this.callbacks.onListeningStart?.();
-    };
-
-    this.recognition.onend = () => {
-      this.isListening = false;
-      this.callbacks.onListeningEnd?.();
+  /**
+   * Switch speech recognition provider (browser or Whisper)
+   */
+  setSTTConfig(config: STTConfig): void {
+    this.stt?.destroy();
+    this.isListening = false;
+
+    this.stt = createSTTProvider(config, {
+      onStart: () => {
+        this.isListening = true;
+        this.callbacks.onListeningStart?.();
+      },
+      onEnd: () => this.handleRecognitionEnd(),
+      onResult: (text) => this.callbacks.onSpeechResult?.(text),
+      onInterimResult: (text) => this.callbacks.onInterimResult?.(text),
+      onTranscribing: () => this.callbacks.onTranscribing?.(),
+      onError: (message) => this.callbacks.onError?.(message),
+    });
+    console.log(`🎙️ Speech recognition: ${this.stt?.name ?? 'not available'}`);
 
+    if (this.stt) {
+      this.stt.setContinuous(this.continuousMode);
+      this.stt.setLanguage(this.language, this.autoDetectLanguage);
       if (this.continuousMode && !this.isSpeaking) {
-        setTimeout(() => {
-          if (!this.isSpeaking) {
-            this.startListening();
-          }
-        }, 1000);
+        this.startListening();
       }
-    };
-
-    this.recognition.onresult = (event: SpeechRecognitionEvent) => {
-      const transcript = event.results[0][0].transcript;
-      this.callbacks.onSpeechResult?.(transcript);
-    };
-
-    this.recognition.onerror = (event: any) => {
-      this.isListening = false;
+    }
+  }
 
-      const errorMessages: Record<string, string> = {
-        'no-speech': 'No speech detected',
-        'audio-capture': 'Microphone not available',
-        'not-allowed': 'Microphone permission denied',
-        'network': 'Connection error',
-        'aborted': 'Speech recognition stopped',
-        'service-not-allowed': 'Speech service blocked',
-      };
+  /**
+   * Set the language to listen and speak in
+   * @param autoDetect - Let Whisper detect the spoken language (browser recognition can't)
+   */
+  setLanguage(language: LanguageCode, autoDetect: boolean): void {
+    this.language = language;
+    this.autoDetectLanguage = autoDetect;
+    this.stt?.setLanguage(language, autoDetect);
+    console.log(`🌐 Language: ${language}${autoDetect ? ' (auto)' : ''}`);
+  }
 
-      const message = errorMessages[event.error] || `Error: ${event.error}`;
+  /**
+   * Language to speak some text in: the one it is written in, if that is clear
+   */
+  private speechLanguage(text: string): LanguageInfo {
+    return findLanguage(detectLanguage(text) ?? this.language);
+  }
 
-      if (event.error === 'aborted') {
-        this.callbacks.onListeningEnd?.();
-        return;
-      }
+  private handleRecognitionEnd(): void {
+    this.isListening = false;
+    this.callbacks.onListeningEnd?.();
 
-      this.callbacks.onError?.(message);
-    };
+    if (this.continuousMode && !this.isSpeaking) {
+      setTimeout(() => {
+        if (this.continuousMode && !this.isSpeaking) {
+          this.startListening();
+        }
+      }, 1000);
+    }
   }
 
   startListening(): void {
-    if (!this.recognition) {
+    if (!this.stt) {
       this.callbacks.onError?.('Speech recognition not available');
       return;
     }
 
     if (this.isListening) return;
 
-    try {
-      this.recognition.start();
-    } catch (error) {
-      this.callbacks.onError?.(`Failed to start listening: ${error}`);
-    }
+    this.stt.start();
   }
 
   stopListening(): void {
-    if (this.recognition && this.isListening) {
-      this.recognition.stop();
+    if (this.stt && this.isListening) {
+      this.stt.stop();
     }
   }
 
@@ -256,54 +335,296 @@ export class VoiceManager {
     // Stop any current speech
     this.stopSpeaking();
 
-    if (this.ttsProvider === 'openai' && this.openaiApiKey) {
-      return this.speakWithOpenAI(cleanText);
+    return this.speakClean(cleanText);
+  }
+
+  private speakClean(cleanText: string, prefetched?: Promise<Blob>): Promise<void> {
+    if (this.usesOpenAITTS()) {
+      return this.speakWithOpenAI(cleanText, prefetched);
     } else {
       return this.speakWithBrowser(cleanText);
     }
   }
 
+  private usesOpenAITTS(): boolean {
+    return this.ttsProvider === 'openai' && !!this.openaiApiKey;
+  }
+
+  // ==================== Streaming Speech ====================
+
+  /**
+   * Start a streamed reply - call pushSpeechText() with each text delta
+   * and endSpeechStream() when the reply is complete
+   */
+  beginSpeechStream(): void {
+    this.stopSpeaking();
+
+    let stop = () => {};
+    const stopped = new Promise<void>((resolve) => (stop = resolve));
+    this.speechStream = {
+      buffer: '',
+      queue: [],
+      started: false,
+      spoken: [],
+      draining: null,
+      model: null,
+      stopped,
+      stop,
+    };
+    this.speechExpression = null;
+    this.speechIntensity = 1;
+  }
+
+  /**
+   * Add a text delta to the stream
+   * Returns the sentences that became complete and were queued
+   */
+  pushSpeechText(delta: string): string[] {
+    const stream = this.speechStream;
+    if (!stream) return [];
+
+    const { sentences, rest } = splitSentences(stream.buffer + delta);
+    stream.buffer = rest;
+
+    sentences.forEach((sentence) => this.queueSentence(stream, sentence));
+    return sentences;
+  }
+
+  /**
+   * Finish the stream: speak whatever is left and resolve when done
+   * Returns the final sentence if one was still buffered
+   */
+  async endSpeechStream(): Promise<string | null> {
+    const stream = this.speechStream;
+    if (!stream) return null;
+
+    const rest = stream.buffer.trim();
+    stream.buffer = '';
+    if (rest) {
+      this.queueSentence(stream, rest);
+    }
+
+    // Paused audio never fires 'ended', so don't wait on a stopped stream
+    if (stream.draining) {
+      await Promise.race([stream.draining, stream.stopped]);
+    }
+
+    // Only the stream that is still current reports the end
+    if (this.speechStream === stream) {
+      this.speechStream = null;
+      if (stream.started) {
+        this.notifySpeakingEnd();
+        if (this.continuousMode) {
+          setTimeout(() => this.startListening(), 500);
+        }
+      }
+    }
+
+    return rest || null;
+  }
+
+  private queueSentence(stream: SpeechStream, sentence: string): void {
+    const cleanText = this.cleanTextForSpeech(sentence);
+    if (!cleanText) return;
+
+    stream.model ??= this.replyModel(cleanText);
+    stream.queue.push(cleanText);
+    if (!stream.draining) {
+      // Next tick, so the caller can set the reply's expression after pushing the first sentence
+      stream.draining = Promise.resolve().then(() => this.drainSpeechStream(stream));
+    }
+  }
+
+  /**
+   * Speak queued sentences one after another
+   */
+  private async drainSpeechStream(stream: SpeechStream): Promise<void> {
+    let prefetched: { text: string; audio: Promise<Blob> } | null = null;
+
+    while (stream.queue.length > 0 && this.speechStream === stream) {
+      const sentence = stream.queue.shift() as string;
+      const audio = prefetched?.text === sentence ? prefetched.audio : undefined;
+      prefetched = null;
+
+      // Fetch the next sentence's audio while this one plays
+      const next = stream.queue[0];
+      if (next && this.usesOpenAITTS() && this.audioUnlocked) {
+        prefetched = { text: next, audio: this.fetchOpenAISpeech(next) };
+        prefetched.audio.catch(() => {}); // Errors surface when it is spoken
+      }
+
+      try {
+        stream.spoken.push(sentence);
+        await this.speakClean(sentence, audio);
+      } catch (error) {
+        console.error('🔊 Failed to speak sentence:', error);
+      }
+    }
+
+    // Cleared synchronously with the empty-queue check so a new sentence restarts the drain
+    stream.draining = null;
+  }
+
+  /**
+   * While streaming, start fires once for the first sentence
+   * and end fires once from endSpeechStream()
+   */
+  private notifySpeakingStart(): void {
+    if (this.speechStream) {
+      if (this.speechStream.started) return;
+      this.speechStream.started = true;
+    }
+    this.callbacks.onSpeakingStart?.();
+  }
+
+  private notifySpeakingEnd(): void {
+    if (this.speechStream) return;
+    this.callbacks.onSpeakingEnd?.();
+  }
+
+  /**
+   * OpenAI TTS model for a reply: the chosen one, or gpt-4o-mini-tts for a non-English reply
+   * when the native accent setting is on (tts-1 reads other languages with an English accent)
+   */
+  private replyModel(text: string): OpenAITTSModel {
+    return this.ttsSettings.nativeAccent && this.speechLanguage(text).code !== 'en'
+      ? 'gpt-4o-mini-tts'
+      : this.ttsSettings.model;
+  }
+
+  /**
+   * OpenAI TTS request body for a sentence
+   * @param model - Defaults to the streamed reply's model, or one picked for this text alone
+   */
+  private openAISpeechRequest(
+    text: string,
+    model = this.speechStream?.model ?? this.replyModel(text),
+    expression = this.speechExpression,
+    intensity = this.speechIntensity
+  ): Record<string, unknown> {
+    const language = this.speechLanguage(text);
+    const prosody = this.prosody(expression, intensity);
+    const speed = clampSpeed(this.openaiSpeed * prosody.rate);
+
+    if (model !== 'gpt-4o-mini-tts') {
+      return { model, voice: this.openaiVoice, input: text, speed };
+    }
+
+    // gpt-4o-mini-tts ignores speed - pace and tone go into the instructions
+    const instructions = [
+      language.code !== 'en' ? `Speak ${language.name} with a natural native accent.` : '',
+      this.ttsSettings.instructions.trim(),
+      prosody.tone ? `Sound ${prosody.tone}.` : '',
+      speed < 0.9 ? 'Speak slowly.' : speed > 1.1 ? 'Speak quickly.' : '',
+    ].filter(Boolean);
+
+    return instructions.length > 0
+      ? { model, voice: this.openaiVoice, input: text, instructions: instructions.join(' ') }
+      : { model, voice: this.openaiVoice, input: text };
+  }
+
+  /**
+   * Speech audio for a sentence, from the cache or the OpenAI TTS API
+   */
+  private async fetchOpenAISpeech(text: string): Promise<Blob> {
+    const body = this.openAISpeechRequest(text);
+    const key = this.speechCache ? await speechCacheKey(body) : null;
+
+    if (key) {
+      const cached = await this.speechCache!.get(key).catch(() => null);
+      if (cached) {
+        console.log(`🔊 Using cached speech (${this.openaiVoice}): "${text.slice(0, 40)}"`);
+        return cached;
+      }
+    }
+
+    const audio = await this.requestOpenAISpeech(body);
+    if (key) {
+      this.speechCache!.put(key, text, audio).catch((error) => console.warn('🔊 Failed to cache speech:', error));
+    }
+    return audio;
+  }
+
+  /**
+   * Fetch speech audio from the OpenAI TTS API
+   */
+  private async requestOpenAISpeech(body: Record<string, unknown>): Promise<Blob> {
+    console.log(`🔊 Fetching OpenAI TTS (${body.voice}, ${body.model})...`);
+
+    const response = await fetch('https://api.openai.com/v1/audio/speech', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.openaiApiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('OpenAI TTS API error:', errorText);
+      throw new Error(`OpenAI TTS failed: ${response.status}`);
+    }
+
+    return response.blob();
+  }
+
+  /**
+   * Generate and cache fixed lines ahead of time, so they play instantly and offline
+   * Does nothing with browser TTS
+   * @param expression - Face the lines are spoken with (the cache key includes the prosody)
+   */
+  async pregenerateSpeech(phrases: string[], expression: Expression | null = null): Promise<void> {
+    if (!this.usesOpenAITTS() || !this.speechCache) return;
+
+    // Streamed replies are spoken sentence by sentence, so cache each sentence
+    const sentences = phrases.flatMap((phrase) => {
+      const { sentences, rest } = splitSentences(phrase);
+      return [...sentences, rest.trim()];
+    });
+
+    for (const sentence of sentences) {
+      const text = this.cleanTextForSpeech(sentence);
+      if (!text) continue;
+
+      try {
+        const body = this.openAISpeechRequest(text, this.replyModel(text), expression, 1);
+        const key = await speechCacheKey(body);
+        if (await this.speechCache.has(key)) continue;
+
+        await this.speechCache.put(key, text, await this.requestOpenAISpeech(body));
+        console.log(`🔊 Pre-generated speech: "${text}"`);
+      } catch (error) {
+        console.warn(`🔊 Failed to pre-generate "${text}":`, error);
+      }
+    }
+  }
+
   /**
    * Speak using OpenAI TTS API
    * iOS FIX: Play audio immediately in user gesture context, then swap source
    */
-  private async speakWithOpenAI(text: string): Promise<void> {
+  private async speakWithOpenAI(text: string, prefetched?: Promise<Blob>): Promise<void> {
     // Check if audio is unlocked
     if (!this.audioUnlocked) {
       console.warn('🔊 Audio not unlocked, falling back to browser TTS');
       return this.speakWithBrowser(text);
     }
 
+    const generation = this.speechGeneration;
+
     try {
       this.isSpeaking = true;
       if (this.isListening) {
         this.stopListening();
       }
-      this.callbacks.onSpeakingStart?.();
-
-      console.log(`🔊 Fetching OpenAI TTS (${this.openaiVoice})...`);
-
-      const response = await fetch('https://api.openai.com/v1/audio/speech', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.openaiApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'tts-1',
-          voice: this.openaiVoice,
-          input: text,
-          speed: this.openaiSpeed,
-        }),
-      });
+      this.notifySpeakingStart();
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('OpenAI TTS API error:', errorText);
-        throw new Error(`OpenAI TTS failed: ${response.status}`);
+      const audioBlob = await (prefetched ?? this.fetchOpenAISpeech(text));
+      if (generation !== this.speechGeneration) {
+        console.log('🔊 Speech was stopped while loading, not playing it');
+        return;
       }
-
-      const audioBlob = await response.blob();
       console.log(`🔊 Received audio blob: ${audioBlob.size} bytes, type: ${audioBlob.type}`);
 
       const audioUrl = URL.createObjectURL(audioBlob);
@@ -333,11 +654,12 @@ export class VoiceManager {
 
         const onEnded = () => {
           console.log('🔊 OpenAI TTS finished playing');
+          this.levelMeter.stop();
           cleanup();
           this.isSpeaking = false;
-          this.callbacks.onSpeakingEnd?.();
+          this.notifySpeakingEnd();
 
-          if (this.continuousMode) {
+          if (this.continuousMode && !this.speechStream) {
             setTimeout(() => this.startListening(), 500);
           }
           resolve();
@@ -345,9 +667,10 @@ export class VoiceManager {
 
         const onError = (e: Event | string) => {
           console.error('🔊 Audio playback error:', e);
+          this.levelMeter.stop();
           cleanup();
           this.isSpeaking = false;
-          this.callbacks.onSpeakingEnd?.();
+          this.notifySpeakingEnd();
 
           // Fallback to browser TTS
           console.log('🔊 Falling back to browser TTS...');
@@ -360,6 +683,7 @@ export class VoiceManager {
           // Only play if we have valid audio
           if (audio.duration && audio.duration > 0) {
             console.log('🔊 Starting playback...');
+            this.levelMeter.startAudio(audio);
             const playPromise = audio.play();
 
             if (playPromise !== undefined) {
@@ -385,7 +709,7 @@ export class VoiceManager {
     } catch (error) {
       console.error('OpenAI TTS error:', error);
       this.isSpeaking = false;
-      this.callbacks.onSpeakingEnd?.();
+      this.notifySpeakingEnd();
       
       // Fallback to browser TTS
       console.log('🔊 Falling back to browser TTS...');
@@ -402,31 +726,41 @@ export class VoiceManager {
 
       const startSpeech = () => {
         const utterance = new SpeechSynthesisUtterance(text);
-        utterance.rate = this.isIOS ? 0.9 : 0.95;
-        utterance.pitch = 1.05;
+        const prosody = this.prosody(this.speechExpression);
+        // iOS voices run a little fast at the same rate
+        const rate = this.ttsSettings.browserRate * prosody.rate * (this.isIOS ? 0.95 : 1);
+        utterance.rate = Math.max(0.1, Math.min(10, rate));
+        utterance.pitch = Math.max(0, Math.min(2, this.ttsSettings.browserPitch * prosody.pitch));
         utterance.volume = 1.0;
-        utterance.lang = 'en-US';
+        const language = this.speechLanguage(text);
+        utterance.lang = language.locale;
 
-        const voice = this.selectBrowserVoice();
+        const voice = this.selectBrowserVoice(language);
         if (voice) {
           utterance.voice = voice;
         }
 
+        utterance.onboundary = (event) => {
+          if (event.name === 'word') this.levelMeter.pulse();
+        };
+
         utterance.onstart = () => {
           console.log('🔊 Browser TTS started');
+          this.levelMeter.startWords();
           this.isSpeaking = true;
           if (this.isListening) {
             this.stopListening();
           }
-          this.callbacks.onSpeakingStart?.();
+          this.notifySpeakingStart();
         };
 
         utterance.onend = () => {
           console.log('🔊 Browser TTS ended');
+          this.levelMeter.stop();
           this.isSpeaking = false;
-          this.callbacks.onSpeakingEnd?.();
+          this.notifySpeakingEnd();
 
-          if (this.continuousMode) {
+          if (this.continuousMode && !this.speechStream) {
             setTimeout(() => this.startListening(), 500);
           }
 
@@ -436,9 +770,10 @@ export class VoiceManager {
         utterance.onerror = (event) => {
           console.error('🔊 Browser TTS error:', event.error);
           this.isSpeaking = false;
+          this.levelMeter.stop();
 
           if (event.error === 'interrupted' || event.error === 'canceled') {
-            this.callbacks.onSpeakingEnd?.();
+            this.notifySpeakingEnd();
             resolve();
             return;
           }
@@ -475,8 +810,9 @@ export class VoiceManager {
           utterance.onend = () => {
             clearInterval(checkInterval);
             clearTimeout(resumeTimeout);
+            this.levelMeter.stop();
             this.isSpeaking = false;
-            this.callbacks.onSpeakingEnd?.();
+            this.notifySpeakingEnd();
             resolve();
           };
         }
@@ -495,20 +831,24 @@ export class VoiceManager {
   }
 
   /**
-   * Select the best available browser voice
+   * Select the best available browser voice for a language
+   * Returns null if there is none, so the browser picks one from utterance.lang
    */
-  private selectBrowserVoice(): SpeechSynthesisVoice | null {
+  private selectBrowserVoice(language: LanguageInfo): SpeechSynthesisVoice | null {
     const voices = this.synthesis.getVoices();
     if (voices.length > 0) {
       this.cachedVoices = voices;
     }
 
-    const availableVoices = this.cachedVoices;
+    // Android reports languages as hi_IN
+    const voiceLang = (v: SpeechSynthesisVoice) => v.lang.replace('_', '-').toLowerCase();
+    const availableVoices = this.cachedVoices.filter(v => voiceLang(v).startsWith(language.code));
 
     if (availableVoices.length === 0) {
       return null;
     }
 
+    // The user's voice only if it speaks this language
     if (this.preferredVoiceName) {
       const userPreferred = availableVoices.find(v => v.name === this.preferredVoiceName);
       if (userPreferred) return userPreferred;
@@ -519,7 +859,7 @@ export class VoiceManager {
         v.name.includes('Samantha') ||
         v.name.includes('Karen') ||
         v.name.includes('Daniel') ||
-        (v.lang.startsWith('en') && v.localService)
+        v.localService
       );
       if (iosPreferred) return iosPreferred;
     }
@@ -534,8 +874,9 @@ export class VoiceManager {
     );
     if (preferred) return preferred;
 
-    const englishVoice = availableVoices.find(v => v.lang.startsWith('en'));
-    if (englishVoice) return englishVoice;
+    // Same region first (hi-IN over hi-PK)
+    const localeVoice = availableVoices.find(v => voiceLang(v) === language.locale.toLowerCase());
+    if (localeVoice) return localeVoice;
 
     return availableVoices[0];
   }
@@ -560,8 +901,23 @@ export class VoiceManager {
     return cleanText;
   }
 
+  /**
+   * Text of the streamed reply that has been spoken so far (up to the current sentence)
+   */
+  getSpokenText(): string {
+    return this.speechStream?.spoken.join(' ') ?? '';
+  }
+
   stopSpeaking(): void {
     this.isSpeaking = false;
+    this.speechGeneration++;
+
+    // Drop any queued sentences
+    if (this.speechStream) {
+      this.speechStream.queue = [];
+      this.speechStream.stop();
+      this.speechStream = null;
+    }
 
     // Stop OpenAI audio
     if (this.audioElement) {
@@ -577,10 +933,15 @@ export class VoiceManager {
 
     // Stop browser TTS
     this.synthesis.cancel();
+    this.levelMeter.stop();
   }
 
+  /**
+   * Keep recognition running with interim results (used for the wake word)
+   */
   setContinuousMode(enabled: boolean): void {
     this.continuousMode = enabled;
+    this.stt?.setContinuous(enabled);
     if (enabled && !this.isListening && !this.isSpeaking) {
       this.startListening();
     } else if (!enabled && this.isListening) {
@@ -596,10 +957,6 @@ export class VoiceManager {
     return this.isSpeaking;
   }
 
-  static isSupported(): boolean {
-    return 'SpeechRecognition' in window || 'webkitSpeechRecognition' in window;
-  }
-
   /**
    * iOS: Unlock audio by playing silent sounds
    * MUST be called from a user gesture (like button click)
@@ -672,6 +1029,9 @@ export class VoiceManager {
       console.warn('AudioContext unlock failed:', e);
     }
 
+    // Lip-sync needs its audio context running before speech plays
+    this.levelMeter.unlock();
+
     // Mark as unlocked (optimistic)
     this.audioUnlocked = true;
   }
@@ -687,6 +1047,7 @@ export class VoiceManager {
     this.continuousMode = false;
     this.stopListening();
     this.stopSpeaking();
+    this.levelMeter.destroy();
     
     if (this.audioElement) {
       this.audioElement.src = '';
@@ -0,0 +1,175 @@
+/**
+ * Kuchi - Wake Word
+ * Hands-free mode: only speech after "Hey Kuchi" (or during the follow-up window) is sent to the agent
+ */
+
+export interface WakeWordConfig {
+  enabled: boolean;
+  phrases: string[];        // e.g. "hey kuchi" - any of them wakes Kuchi
+  followUpSeconds: number;  // After Kuchi speaks, reply without the wake word for this long (0 = off)
+}
+
+export const WAKE_WORD_STORAGE_KEY = 'kuchi_wake_word';
+
+export const DEFAULT_WAKE_WORD_CONFIG: WakeWordConfig = {
+  enabled: false,
+  phrases: ['hey kuchi', 'hi kuchi', 'okay kuchi'],
+  followUpSeconds: 8,
+};
+
+// How long to wait for the request after a bare "Hey Kuchi"
+export const WAKE_WORD_TIMEOUT_MS = 8000;
+
+// Recognizers rarely spell the name right - treat these as "kuchi"
+const NAME_SOUNDALIKES = [
+  'kuchi', 'koochi', 'kouchi', 'coochie', 'coochi', 'cuchi', 'goochi', 'kochi', 'gucci', 'kuchy',
+  'कुची', 'कूची', 'कुचि', 'कोची', // Hindi recognition writes the name in Devanagari
+];
+
+// Greetings as Hindi recognition writes them, so the default phrases still match
+const GREETING_SOUNDALIKES: Record<string, string> = { 'हे': 'hey', 'हाय': 'hi', 'ओके': 'okay' };
+
+/**
+ * Lowercase a word and drop punctuation, so "Kuchi," matches "kuchi"
+ * (vowel signs are kept, Devanagari needs them)
+ */
+function normalizeWord(word: string): string {
+  const normalized = word.toLowerCase().replace(/[^\p{L}\p{M}\p{N}]/gu, '');
+  if (NAME_SOUNDALIKES.includes(normalized)) return 'kuchi';
+  return GREETING_SOUNDALIKES[normalized] ?? normalized;
+}
+
+function splitPhrase(phrase: string): string[] {
+  return phrase.split(/\s+/).map(normalizeWord).filter(Boolean);
+}
+
+export class WakeWordFilter {
+  private phrases: string[][] = [];
+  private followUpMs = 0;
+  private awakeUntil = 0;     // Wake phrase heard on its own, waiting for the request
+  private followUpUntil = 0;  // Follow-up window after Kuchi spoke
+
+  constructor(config: WakeWordConfig) {
+    this.setConfig(config);
+  }
+
+  setConfig(config: WakeWordConfig): void {
+    this.phrases = config.phrases.map(splitPhrase).filter((words) => words.length > 0);
+    this.followUpMs = Math.max(0, config.followUpSeconds) * 1000;
+  }
+
+  /**
+   * Index of the first word after the wake phrase, or -1 if there is none
+   */
+  private findCommandStart(words: string[]): number {
+    const normalized = words.map(normalizeWord);
+    for (let start = 0; start < normalized.length; start++) {
+      for (const phrase of this.phrases) {
+        if (phrase.every((word, offset) => normalized[start + offset] === word)) {
+          return start + phrase.length;
+        }
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Whether a (possibly interim) transcript contains the wake phrase
+   */
+  hasWakeWord(text: string): boolean {
+    return this.findCommandStart(text.trim().split(/\s+/)) !== -1;
+  }
+
+  /**
+   * Whether speech right now goes to the agent without a wake phrase
+   */
+  isAwake(): boolean {
+    const now = Date.now();
+    return now < this.awakeUntil || now < this.followUpUntil;
+  }
+
+  /**
+   * Filter a final transcript
+   * Returns the request to send to the agent, or null if it wasn't meant for Kuchi
+   */
+  process(text: string): string | null {
+    const words = text.trim().split(/\s+/).filter(Boolean);
+    const commandStart = this.findCommandStart(words);
+
+    if (commandStart !== -1) {
+      const command = words.slice(commandStart).join(' ').replace(/^[\s,.!?]+/, '');
+      if (!command) {
+        // Just "Hey Kuchi" - the request follows in the next utterance
+        this.awakeUntil = Date.now() + WAKE_WORD_TIMEOUT_MS;
+        this.followUpUntil = 0;
+        return null;
+      }
+      this.sleep();
+      return command;
+    }
+
+    if (this.isAwake() && words.length > 0) {
+      this.sleep();
+      return words.join(' ');
+    }
+
+    return null;
+  }
+
+  /**
+   * Start the follow-up window (call when Kuchi finishes speaking)
+   */
+  openFollowUpWindow(): void {
+    this.followUpUntil = Date.now() + this.followUpMs;
+  }
+
+  getFollowUpMs(): number {
+    return this.followUpMs;
+  }
+
+  /**
+   * Listen without the wake phrase for a while (e.g. the user interrupted Kuchi)
+   */
+  wakeUp(): void {
+    this.awakeUntil = Date.now() + WAKE_WORD_TIMEOUT_MS;
+  }
+
+  /**
+   * Require the wake phrase again
+   */
+  sleep(): void {
+    this.awakeUntil = 0;
+    this.followUpUntil = 0;
+  }
+}
+
+/**
+ * Load the saved wake word settings
+ */
+export function loadWakeWordConfig(): WakeWordConfig {
+  try {
+    const saved = localStorage.getItem(WAKE_WORD_STORAGE_KEY);
+    if (saved) {
+      const data = JSON.parse(saved);
+      const phrases = Array.isArray(data.phrases)
+        ? data.phrases.filter((phrase: unknown) => typeof phrase === 'string' && phrase.trim())
+        : [];
+      return {
+        enabled: data.enabled === true,
+        phrases: phrases.length > 0 ? phrases : DEFAULT_WAKE_WORD_CONFIG.phrases,
+        followUpSeconds:
+          typeof data.followUpSeconds === 'number' && data.followUpSeconds >= 0
+            ? data.followUpSeconds
+            : DEFAULT_WAKE_WORD_CONFIG.followUpSeconds,
+      };
+    }
+  } catch (error) {
+    console.warn('👂 Failed to load wake word settings:', error);
+  }
+
+  return { ...DEFAULT_WAKE_WORD_CONFIG, phrases: [...DEFAULT_WAKE_WORD_CONFIG.phrases] };
+}
+
+export function saveWakeWordConfig(config: WakeWordConfig): void {
+  localStorage.setItem(WAKE_WORD_STORAGE_KEY, JSON.stringify(config));
+}
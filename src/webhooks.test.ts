@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { LEGACY_WORK_QUEUE_TOOL, createWebhookTool, parseWebhookTools, readJsonPath } from './webhooks';
+
+const minimal = {
+  name: 'check_orders',
+  description: 'Check open orders',
+  url: 'https://example.com/orders/{{id}}',
+};
+
+describe('parseWebhookTools', () => {
+  it('fills in defaults', () => {
+    expect(parseWebhookTools([minimal])).toEqual([
+      {
+        ...minimal,
+        method: 'GET',
+        parameters: { type: 'object', properties: {} },
+        headers: {},
+        responsePath: '$',
+        resultType: 'reply',
+      },
+    ]);
+  });
+
+  it('accepts the migrated work queue tool', () => {
+    expect(parseWebhookTools([LEGACY_WORK_QUEUE_TOOL])).toEqual([LEGACY_WORK_QUEUE_TOOL]);
+  });
+
+  it.each([
+    [{ ...minimal, name: 'has spaces' }, 'name must be 1-64 letters'],
+    [{ ...minimal, description: ' ' }, 'description is required'],
+    [{ ...minimal, url: 'ftp://example.com' }, 'url must start with http:// or https://'],
+    [{ ...minimal, method: 'FETCH' }, 'method must be one of'],
+    [{ ...minimal, parameters: { type: 'string' } }, 'parameters must be a JSON schema'],
+    [{ ...minimal, headers: { 'X-Count': 1 } }, 'headers must be an object of strings'],
+    [{ ...minimal, responsePath: 'output' }, 'JSONPath must start with $'],
+    [{ ...minimal, resultType: 'speak' }, 'resultType must be "reply" or "context"'],
+  ])('rejects %o', (tool, message) => {
+    expect(() => parseWebhookTools([tool])).toThrow(message);
+  });
+
+  it('rejects duplicate names and non-arrays', () => {
+    expect(() => parseWebhookTools([minimal, minimal])).toThrow('Webhook tool "check_orders": name is used more than once');
+    expect(() => parseWebhookTools(minimal)).toThrow('Webhook tools must be a JSON array');
+  });
+});
+
+describe('readJsonPath', () => {
+  it('reads keys and indexes', () => {
+    const data = [{ output: 'Two incidents', 'odd key': { list: [1, 2] } }];
+    expect(readJsonPath(data, '$[0].output')).toBe('Two incidents');
+    expect(readJsonPath(data, "$[0]['odd key'].list[1]")).toBe(2);
+    expect(readJsonPath(data, '$')).toBe(data);
+  });
+
+  it('is undefined for missing values', () => {
+    expect(readJsonPath({ a: null }, '$.a.b')).toBeUndefined();
+    expect(readJsonPath([], '$[3]')).toBeUndefined();
+  });
+});
+
+describe('createWebhookTool', () => {
+  it('runs calls that may change something in order', () => {
+    const [get, post] = parseWebhookTools([minimal, { ...minimal, name: 'add_order', method: 'POST' }]);
+    expect(createWebhookTool(get).sequential).toBe(false);
+    expect(createWebhookTool(post).sequential).toBe(true);
+  });
+});
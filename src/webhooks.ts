@@ -0,0 +1,267 @@
+/**
+ * Kuchi - Webhook Tools
+ * User-defined tools that call an HTTP endpoint (n8n, Zapier, Home Assistant...)
+ */
+
+import type { KuchiTool, ToolParameters, ToolResultType } from './tools';
+
+export type WebhookMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface WebhookToolConfig {
+  name: string;                     // Tool name the model calls, e.g. check_work_queue
+  description: string;              // Tells the model when to use the tool
+  url: string;                      // {{param}} placeholders are filled from the arguments
+  method: WebhookMethod;
+  parameters: ToolParameters;       // JSON schema for the arguments
+  headers: Record<string, string>;
+  responsePath: string;             // JSONPath of the response field to speak, e.g. $[0].output
+  resultType: ToolResultType;       // 'reply' speaks the field as-is, 'context' lets the model phrase it
+}
+
+export const WEBHOOK_TOOLS_STORAGE_KEY = 'kuchi_webhook_tools';
+const WEBHOOK_TOOLS_MIGRATED_STORAGE_KEY = 'kuchi_webhook_tools_migrated';
+
+// The work queue check that was built in before webhook tools existed
+export const LEGACY_WORK_QUEUE_TOOL: WebhookToolConfig = {
+  name: 'check_work_queue',
+  description:
+    'Check the incident work queue to see if there are any pending incidents. ' +
+    'Use this when the user seems idle or asks about their work. ' +
+    'The n8n workflow will check ServiceNow and return a message (potentially a rebuke) for you to deliver.',
+  url: 'https://yajna.app.n8n.cloud/webhook/2f1f3e71-cb25-4f28-b435-b4320242d25f',
+  method: 'GET',
+  parameters: { type: 'object', properties: {}, required: [] },
+  headers: {},
+  responsePath: '$[0].output',
+  resultType: 'reply',
+};
+
+const WEBHOOK_METHODS: WebhookMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+const URL_PLACEHOLDER_PATTERN = /\{\{(\w+)\}\}/g;
+
+type JsonPathSegment = string | number;
+
+/**
+ * Parse a simple JSONPath: $, .key, ['key'] and [0]
+ */
+function parseJsonPath(path: string): JsonPathSegment[] {
+  const trimmed = path.trim();
+  if (!trimmed.startsWith('$')) {
+    throw new Error(`JSONPath must start with $: ${path}`);
+  }
+
+  const segments: JsonPathSegment[] = [];
+  const pattern = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[(?:'([^']*)'|"([^"]*)")\]/y;
+  pattern.lastIndex = 1;
+
+  while (pattern.lastIndex < trimmed.length) {
+    const start = pattern.lastIndex;
+    const match = pattern.exec(trimmed);
+    if (!match) {
+      throw new Error(`Unsupported JSONPath at "${trimmed.slice(start)}": ${path}`);
+    }
+    if (match[2] !== undefined) {
+      segments.push(Number(match[2]));
+    } else {
+      segments.push(match[1] ?? match[3] ?? match[4]);
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Read a value from parsed JSON by JSONPath (undefined if it isn't there)
+ */
+export function readJsonPath(data: unknown, path: string): unknown {
+  return parseJsonPath(path).reduce<unknown>((value, segment) => {
+    if (value === null || typeof value !== 'object') return undefined;
+    return (value as Record<string | number, unknown>)[segment];
+  }, data);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Validate webhook tool definitions, filling in defaults
+ * Throws with a message naming the first bad tool
+ */
+export function parseWebhookTools(data: unknown): WebhookToolConfig[] {
+  if (!Array.isArray(data)) {
+    throw new Error('Webhook tools must be a JSON array');
+  }
+
+  const names = new Set<string>();
+
+  return data.map((item, index) => {
+    const label = isPlainObject(item) && typeof item.name === 'string' ? `"${item.name}"` : `#${index + 1}`;
+    const fail = (message: string): never => {
+      throw new Error(`Webhook tool ${label}: ${message}`);
+    };
+
+    if (!isPlainObject(item)) fail('must be an object');
+    const tool = item as Record<string, unknown>;
+
+    if (typeof tool.name !== 'string' || !TOOL_NAME_PATTERN.test(tool.name)) {
+      fail('name must be 1-64 letters, digits, _ or -');
+    }
+    const name = tool.name as string;
+    if (names.has(name)) fail('name is used more than once');
+    names.add(name);
+
+    if (typeof tool.description !== 'string' || !tool.description.trim()) {
+      fail('description is required');
+    }
+
+    if (typeof tool.url !== 'string') fail('url is required');
+    let protocol = '';
+    try {
+      protocol = new URL((tool.url as string).replace(URL_PLACEHOLDER_PATTERN, 'x')).protocol;
+    } catch {
+      fail(`invalid url: ${tool.url}`);
+    }
+    if (protocol !== 'http:' && protocol !== 'https:') fail('url must start with http:// or https://');
+
+    const method = (typeof tool.method === 'string' ? tool.method : 'GET').toUpperCase() as WebhookMethod;
+    if (!WEBHOOK_METHODS.includes(method)) {
+      fail(`method must be one of ${WEBHOOK_METHODS.join(', ')}`);
+    }
+
+    const parameters = tool.parameters ?? { type: 'object', properties: {} };
+    if (!isPlainObject(parameters) || parameters.type !== 'object' || !isPlainObject(parameters.properties)) {
+      fail('parameters must be a JSON schema with type "object" and properties');
+    }
+
+    const headers = tool.headers ?? {};
+    if (!isPlainObject(headers) || Object.values(headers).some((value) => typeof value !== 'string')) {
+      fail('headers must be an object of strings');
+    }
+
+    const responsePath = tool.responsePath ?? '$';
+    if (typeof responsePath !== 'string') fail('responsePath must be a string');
+    try {
+      parseJsonPath(responsePath as string);
+    } catch (error: any) {
+      fail(error.message);
+    }
+
+    const resultType = tool.resultType ?? 'reply';
+    if (resultType !== 'reply' && resultType !== 'context') {
+      fail('resultType must be "reply" or "context"');
+    }
+
+    return {
+      name,
+      description: (tool.description as string).trim(),
+      url: tool.url as string,
+      method,
+      parameters: parameters as unknown as ToolParameters,
+      headers: headers as Record<string, string>,
+      responsePath: responsePath as string,
+      resultType: resultType as ToolResultType,
+    };
+  });
+}
+
+/**
+ * Saved webhook tools (empty if none, or if the saved JSON is invalid)
+ */
+export function loadWebhookTools(): WebhookToolConfig[] {
+  const saved = localStorage.getItem(WEBHOOK_TOOLS_STORAGE_KEY);
+  if (!saved) return [];
+
+  try {
+    return parseWebhookTools(JSON.parse(saved));
+  } catch (error) {
+    console.warn('🪝 Failed to load webhook tools:', error);
+    return [];
+  }
+}
+
+/**
+ * One-time move of the old built-in check_work_queue tool into the webhook tools
+ * @param existingUser - Kuchi was set up before this version, so it had the tool
+ */
+export function migrateWebhookTools(existingUser: boolean): void {
+  if (localStorage.getItem(WEBHOOK_TOOLS_MIGRATED_STORAGE_KEY)) return;
+  localStorage.setItem(WEBHOOK_TOOLS_MIGRATED_STORAGE_KEY, 'true');
+  if (!existingUser || localStorage.getItem(WEBHOOK_TOOLS_STORAGE_KEY)) return;
+
+  saveWebhookTools([LEGACY_WORK_QUEUE_TOOL]);
+  console.log('🪝 Moved check_work_queue to the webhook tools');
+}
+
+export function saveWebhookTools(configs: WebhookToolConfig[]): void {
+  if (configs.length === 0) {
+    localStorage.removeItem(WEBHOOK_TOOLS_STORAGE_KEY);
+  } else {
+    localStorage.setItem(WEBHOOK_TOOLS_STORAGE_KEY, JSON.stringify(configs));
+  }
+}
+
+function argumentToString(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Build a registry tool that calls the webhook
+ * GET and DELETE send arguments as query parameters, other methods as a JSON body
+ * Anything but GET may change something, so those calls run one at a time in call order
+ */
+export function createWebhookTool(config: WebhookToolConfig): KuchiTool<Record<string, unknown>> {
+  return {
+    name: config.name,
+    description: config.description,
+    parameters: config.parameters,
+    resultType: config.resultType,
+    sequential: config.method !== 'GET',
+    handler: async (args) => {
+      const usedInUrl = new Set<string>();
+      const url = new URL(
+        config.url.replace(URL_PLACEHOLDER_PATTERN, (_, key: string) => {
+          usedInUrl.add(key);
+          return encodeURIComponent(args[key] === undefined ? '' : argumentToString(args[key]));
+        })
+      );
+      const rest = Object.entries(args).filter(([key]) => !usedInUrl.has(key));
+
+      const headers = { ...config.headers };
+      const init: RequestInit = { method: config.method, headers };
+
+      if (config.method === 'GET' || config.method === 'DELETE') {
+        rest.forEach(([key, value]) => url.searchParams.append(key, argumentToString(value)));
+      } else {
+        if (!Object.keys(headers).some((key) => key.toLowerCase() === 'content-type')) {
+          headers['Content-Type'] = 'application/json';
+        }
+        init.body = JSON.stringify(Object.fromEntries(rest));
+      }
+
+      console.log(`🪝 Calling webhook ${config.name}: ${config.method} ${url.origin}${url.pathname}`);
+      const response = await fetch(url, init);
+
+      if (!response.ok) {
+        throw new Error(`webhook returned ${response.status} ${response.statusText}`);
+      }
+
+      const text = await response.text();
+      let data: unknown;
+      try {
+        data = JSON.parse(text);
+      } catch {
+        // Plain text responses are spoken as-is
+        return text.trim() || `${config.name} completed, but returned nothing.`;
+      }
+      console.log(`✅ Webhook ${config.name} response:`, data);
+
+      const value = readJsonPath(data, config.responsePath);
+      if (value === undefined || value === null || value === '') {
+        return `${config.name} completed, but returned nothing at ${config.responsePath}.`;
+      }
+      return typeof value === 'string' ? value : JSON.stringify(value);
+    },
+  };
+}